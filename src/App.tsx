@@ -12,10 +12,13 @@ import SignIn from "./pages/SignIn";
 import ChatSelection from "./pages/ChatSelection";
 import TextChat from "./pages/TextChat";
 import VoiceChat from "./pages/VoiceChat";
+import Chatbot from "./pages/Chatbot";
 import Analysis from "./pages/Analysis";
 import About from "./pages/About";
 import Contact from "./pages/Contact";
 import Profile from "./pages/Profile";
+import Admin from "./pages/Admin";
+import Kiosk from "./pages/Kiosk";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -35,6 +38,8 @@ const App = () => (
               <Route path="/about" element={<About />} />
               <Route path="/contact" element={<Contact />} />
               <Route path="/analysis" element={<Analysis />} />
+              {/* Campus booth; checks the kiosk account itself */}
+              <Route path="/kiosk" element={<Kiosk />} />
               {/* Protected Chat Routes */}
               <Route path="/chatbot" element={
                 <ProtectedRoute>
@@ -51,11 +56,22 @@ const App = () => (
                   <VoiceChat />
                 </ProtectedRoute>
               } />
+              <Route path="/mixed-chat" element={
+                <ProtectedRoute>
+                  <Chatbot />
+                </ProtectedRoute>
+              } />
               <Route path="/profile" element={
                 <ProtectedRoute>
                   <Profile />
                 </ProtectedRoute>
               } />
+              {/* Admin Routes */}
+              <Route path="/admin" element={
+                <ProtectedRoute requiredRole="admin">
+                  <Admin />
+                </ProtectedRoute>
+              } />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
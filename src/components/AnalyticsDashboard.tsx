@@ -3,6 +3,7 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useAnalytics } from '@/hooks/useAnalytics';
 import { useAuth } from '@/hooks/useAuth';
+import { FeedbackSummaryCard } from '@/components/FeedbackSummaryCard';
 import { 
   BarChart, 
   Bar, 
@@ -26,7 +27,8 @@ import {
   Calendar,
   Activity,
   BarChart3,
-  PieChart as PieChartIcon
+  PieChart as PieChartIcon,
+  Zap
 } from 'lucide-react';
 
 const COLORS = ['hsl(var(--primary))', 'hsl(var(--chart-2))'];
@@ -89,12 +91,19 @@ export const AnalyticsDashboard = () => {
       description: 'Characters per response',
       color: 'text-chart-3'
     },
+    { 
+      title: 'Cached Answers', 
+      value: `${stats.cacheHitRate}%`, 
+      icon: Zap, 
+      description: `${stats.cachedChats} answered instantly`,
+      color: 'text-chart-4'
+    },
   ];
 
   return (
     <div className="space-y-6">
       {/* Stats Cards */}
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
         {statCards.map((stat, index) => (
           <Card key={index}>
             <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -323,6 +332,9 @@ export const AnalyticsDashboard = () => {
           )}
         </CardContent>
       </Card>
+
+      {/* Answer Feedback */}
+      <FeedbackSummaryCard scope="mine" />
     </div>
   );
 };
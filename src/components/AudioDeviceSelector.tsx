@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useAudioDevices, AudioDevice } from '@/hooks/useAudioDevices';
 import { Button } from '@/components/ui/button';
 import { 
@@ -20,9 +20,11 @@ import {
   RefreshCw,
   Loader2,
   AlertCircle,
-  Check
+  Check,
+  Volume2
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { playTestTone, supportsOutputSelection } from '@/lib/audioOutput';
 
 interface AudioDeviceSelectorProps {
   compact?: boolean;
@@ -71,6 +73,8 @@ export const AudioDeviceSelector: React.FC<AudioDeviceSelectorProps> = ({
     outputDevices,
     selectedInputDevice,
     selectedOutputDevice,
+    preferredInputDevice,
+    isUsingFallbackInput,
     setSelectedInputDevice,
     setSelectedOutputDevice,
     refreshDevices,
@@ -80,6 +84,19 @@ export const AudioDeviceSelector: React.FC<AudioDeviceSelectorProps> = ({
     requestPermission
   } = useAudioDevices();
 
+  const [isTestingOutput, setIsTestingOutput] = useState(false);
+
+  const testOutput = async () => {
+    setIsTestingOutput(true);
+    try {
+      await playTestTone(selectedOutputDevice);
+    } catch (err) {
+      console.error('Test tone failed:', err);
+    } finally {
+      setIsTestingOutput(false);
+    }
+  };
+
   const handleInputChange = (deviceId: string) => {
     setSelectedInputDevice(deviceId);
     onDeviceChange?.(deviceId);
@@ -220,6 +237,13 @@ export const AudioDeviceSelector: React.FC<AudioDeviceSelectorProps> = ({
             </SelectContent>
           </Select>
           
+          {isUsingFallbackInput && preferredInputDevice?.label && (
+            <div className="flex items-center gap-2 text-xs text-amber-600">
+              <AlertCircle className="h-3 w-3 flex-shrink-0" />
+              <span>{preferredInputDevice.label} is disconnected; it will be used again once plugged in</span>
+            </div>
+          )}
+
           {selectedInput && (
             <div className="flex items-center gap-2 text-xs text-muted-foreground">
               <Check className="h-3 w-3 text-green-500" />
@@ -242,37 +266,55 @@ export const AudioDeviceSelector: React.FC<AudioDeviceSelectorProps> = ({
               Speaker / Output
             </label>
             
-            <Select value={selectedOutputDevice || ''} onValueChange={setSelectedOutputDevice}>
-              <SelectTrigger className="w-full">
-                <SelectValue placeholder="Select speaker">
-                  {selectedOutput && (
-                    <div className="flex items-center gap-2">
-                      <DeviceTypeIcon type={selectedOutput.deviceType} />
-                      <span className="truncate">{selectedOutput.label}</span>
+            <div className="flex gap-2">
+              <Select value={selectedOutputDevice || ''} onValueChange={setSelectedOutputDevice}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select speaker">
+                    {selectedOutput && (
+                      <div className="flex items-center gap-2">
+                        <DeviceTypeIcon type={selectedOutput.deviceType} />
+                        <span className="truncate">{selectedOutput.label}</span>
+                      </div>
+                    )}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {outputDevices.length === 0 ? (
+                    <div className="p-2 text-sm text-muted-foreground text-center">
+                      No speakers detected
                     </div>
-                  )}
-                </SelectValue>
-              </SelectTrigger>
-              <SelectContent>
-                {outputDevices.length === 0 ? (
-                  <div className="p-2 text-sm text-muted-foreground text-center">
-                    No speakers detected
-                  </div>
-                ) : (
-                  outputDevices.map((device) => (
-                    <SelectItem key={device.deviceId} value={device.deviceId}>
-                      <div className="flex items-center justify-between gap-3 w-full">
-                        <div className="flex items-center gap-2">
-                          <DeviceTypeIcon type={device.deviceType} />
-                          <span className="truncate max-w-[200px]">{device.label}</span>
+                  ) : (
+                    outputDevices.map((device) => (
+                      <SelectItem key={device.deviceId} value={device.deviceId}>
+                        <div className="flex items-center justify-between gap-3 w-full">
+                          <div className="flex items-center gap-2">
+                            <DeviceTypeIcon type={device.deviceType} />
+                            <span className="truncate max-w-[200px]">{device.label}</span>
+                          </div>
+                          <DeviceTypeBadge type={device.deviceType} />
                         </div>
-                        <DeviceTypeBadge type={device.deviceType} />
-                      </div>
-                    </SelectItem>
-                  ))
-                )}
-              </SelectContent>
-            </Select>
+                      </SelectItem>
+                    ))
+                  )}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={testOutput}
+                disabled={isTestingOutput}
+                title="Play test tone"
+                className="flex-shrink-0"
+              >
+                {isTestingOutput ? <Loader2 className="h-4 w-4 animate-spin" /> : <Volume2 className="h-4 w-4" />}
+              </Button>
+            </div>
+
+            {!supportsOutputSelection() && (
+              <p className="text-xs text-muted-foreground">
+                This browser cannot switch speakers, so replies play on the system default output.
+              </p>
+            )}
           </div>
         )}
 
@@ -1,14 +1,53 @@
-import { User, Bot, Mic, Keyboard } from 'lucide-react';
+import { User, Bot, Mic, Keyboard, AlertCircle, RotateCcw } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { SpokenRange } from '@/hooks/useSpeechSynthesis';
+import { VoiceClipPlayer } from '@/components/VoiceClipPlayer';
+import { ChatError } from '@/lib/chatErrors';
 
 interface ChatMessageProps {
   role: 'user' | 'assistant';
   content: string;
   inputType?: 'text' | 'voice';
   timestamp?: string;
+  /** Sentence being read aloud, highlighted while the reply is spoken */
+  spokenSentence?: SpokenRange | null;
+  /** Word being read aloud, within spokenSentence */
+  spokenWord?: SpokenRange | null;
+  /** Recordings of a voice question, offered for playback */
+  audioPaths?: string[];
+  /** Why a question got no answer */
+  error?: ChatError;
+  /** Ask a failed question again; offered when the error is retryable */
+  onRetry?: () => void;
 }
 
-export const ChatMessage = ({ role, content, inputType, timestamp }: ChatMessageProps) => {
+/**
+ * Message text with the sentence (and word, when the voice reports word
+ * boundaries) currently being read aloud marked.
+ */
+export const SpokenText = ({ content, sentence, word }: { content: string; sentence: SpokenRange; word?: SpokenRange | null }) => {
+  const hasWord = !!word && word.start >= sentence.start && word.end <= sentence.end;
+
+  return (
+    <>
+      {content.slice(0, sentence.start)}
+      <mark className="bg-primary/15 text-inherit rounded-sm transition-colors">
+        {hasWord ? (
+          <>
+            {content.slice(sentence.start, word.start)}
+            <span className="bg-primary/30 rounded-sm">{content.slice(word.start, word.end)}</span>
+            {content.slice(word.end, sentence.end)}
+          </>
+        ) : (
+          content.slice(sentence.start, sentence.end)
+        )}
+      </mark>
+      {content.slice(sentence.end)}
+    </>
+  );
+};
+
+export const ChatMessage = ({ role, content, inputType, timestamp, spokenSentence, spokenWord, audioPaths, error, onRetry }: ChatMessageProps) => {
   const isUser = role === 'user';
 
   return (
@@ -28,7 +67,13 @@ export const ChatMessage = ({ role, content, inputType, timestamp }: ChatMessage
           ? 'bg-primary text-primary-foreground' 
           : 'bg-card border border-border'
       )}>
-        <p className="text-sm whitespace-pre-wrap leading-relaxed">{content}</p>
+        <p className="text-sm whitespace-pre-wrap leading-relaxed">
+          {spokenSentence ? (
+            <SpokenText content={content} sentence={spokenSentence} word={spokenWord} />
+          ) : (
+            content
+          )}
+        </p>
         <div className={cn(
           'flex items-center gap-2 mt-2 text-xs',
           isUser ? 'text-primary-foreground/70' : 'text-muted-foreground'
@@ -48,9 +93,34 @@ export const ChatMessage = ({ role, content, inputType, timestamp }: ChatMessage
               )}
             </span>
           )}
+          {audioPaths && audioPaths.length > 0 && (
+            <>
+              <span>•</span>
+              <VoiceClipPlayer paths={audioPaths} />
+            </>
+          )}
           {inputType && timestamp && <span>•</span>}
           {timestamp && <span>{timestamp}</span>}
         </div>
+        {error && (
+          <div className={cn(
+            'flex items-center gap-2 mt-2 text-xs',
+            isUser ? 'text-primary-foreground' : 'text-destructive'
+          )}>
+            <AlertCircle className="h-3 w-3 flex-shrink-0" />
+            <span>{error.message}</span>
+            {onRetry && error.retryable && (
+              <button
+                type="button"
+                onClick={onRetry}
+                className="flex items-center gap-1 font-medium underline underline-offset-2 hover:opacity-80"
+              >
+                <RotateCcw className="h-3 w-3" />
+                Retry
+              </button>
+            )}
+          </div>
+        )}
       </div>
       
       {isUser && (
@@ -11,6 +11,7 @@ import {
 } from '@/components/ui/command';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
+import { useFaqSuggestions, faqIcon } from '@/hooks/useFaqSuggestions';
 import {
   Search,
   Keyboard,
@@ -19,13 +20,9 @@ import {
   FileText,
   Mail,
   User,
-  GraduationCap,
-  BookOpen,
-  Building,
-  DollarSign,
-  Users,
   Clock,
   HelpCircle,
+  MessageSquare,
 } from 'lucide-react';
 
 /**
@@ -40,23 +37,11 @@ interface SearchHistoryItem {
   timestamp: number;
 }
 
-const FAQ_SUGGESTIONS = [
-  { query: 'Admission requirements', icon: GraduationCap, category: 'Admissions' },
-  { query: 'Fee structure', icon: DollarSign, category: 'Admissions' },
-  { query: 'Available courses', icon: BookOpen, category: 'Courses' },
-  { query: 'B.Tech programs', icon: BookOpen, category: 'Courses' },
-  { query: 'Placement statistics', icon: Users, category: 'Placements' },
-  { query: 'Top recruiters', icon: Building, category: 'Placements' },
-  { query: 'Hostel facilities', icon: Building, category: 'Campus' },
-  { query: 'Campus timings', icon: Clock, category: 'Campus' },
-  { query: 'Contact information', icon: Mail, category: 'Contact' },
-  { query: 'Application deadline', icon: Clock, category: 'Admissions' },
-];
-
 const NAVIGATION_ITEMS = [
   { name: 'Home', path: '/', icon: Home },
   { name: 'Text Chat', path: '/text-chat', icon: Keyboard, requiresAuth: true },
   { name: 'Voice Chat', path: '/voice-chat', icon: Headphones, requiresAuth: true },
+  { name: 'Mixed Chat', path: '/mixed-chat', icon: MessageSquare, requiresAuth: true },
   { name: 'Analysis', path: '/analysis', icon: FileText },
   { name: 'About', path: '/about', icon: HelpCircle },
   { name: 'Contact', path: '/contact', icon: Mail },
@@ -67,6 +52,7 @@ export const CommandSearch = () => {
   const [searchHistory, setSearchHistory] = useState<SearchHistoryItem[]>([]);
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { suggestions } = useFaqSuggestions();
 
   // Load search history from localStorage
   useEffect(() => {
@@ -191,17 +177,20 @@ export const CommandSearch = () => {
 
           {/* FAQ Suggestions */}
           <CommandGroup heading="Common Questions">
-            {FAQ_SUGGESTIONS.map((faq) => (
-              <CommandItem
-                key={faq.query}
-                value={faq.query}
-                onSelect={() => handleSearch(faq.query)}
-              >
-                <faq.icon className="mr-2 h-4 w-4" />
-                <span>{faq.query}</span>
-                <span className="ml-auto text-xs text-muted-foreground">{faq.category}</span>
-              </CommandItem>
-            ))}
+            {suggestions.filter((faq) => faq.enabled).map((faq) => {
+              const Icon = faqIcon(faq.icon);
+              return (
+                <CommandItem
+                  key={faq.id}
+                  value={faq.query}
+                  onSelect={() => handleSearch(faq.query)}
+                >
+                  <Icon className="mr-2 h-4 w-4" />
+                  <span>{faq.query}</span>
+                  <span className="ml-auto text-xs text-muted-foreground">{faq.category}</span>
+                </CommandItem>
+              );
+            })}
           </CommandGroup>
         </CommandList>
       </CommandDialog>
@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Conversation } from '@/hooks/useConversations';
+import {
+  Plus,
+  MessageSquare,
+  MoreHorizontal,
+  Pencil,
+  Archive,
+  ArchiveRestore,
+  Trash2,
+  Loader2,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  isLoading?: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => Promise<void>;
+  onArchive: (id: string, archived: boolean) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  className?: string;
+}
+
+/**
+ * CONVERSATION SIDEBAR COMPONENT
+ * ==============================
+ * Lists chat threads with controls to start, rename, switch,
+ * archive and delete them.
+ */
+export const ConversationSidebar = ({
+  conversations,
+  activeConversationId,
+  isLoading,
+  onSelect,
+  onNew,
+  onRename,
+  onArchive,
+  onDelete,
+  className,
+}: ConversationSidebarProps) => {
+  const [showArchived, setShowArchived] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<Conversation | null>(null);
+
+  const visible = conversations.filter((c) => c.archived === showArchived);
+  const archivedCount = conversations.filter((c) => c.archived).length;
+
+  const startRename = (conversation: Conversation) => {
+    setRenamingId(conversation.id);
+    setRenameValue(conversation.title || '');
+  };
+
+  const submitRename = async (e: React.SyntheticEvent) => {
+    e.preventDefault();
+    if (renamingId) {
+      await onRename(renamingId, renameValue);
+    }
+    setRenamingId(null);
+  };
+
+  return (
+    <div className={cn('flex flex-col h-full', className)}>
+      <div className="p-3 border-b border-border">
+        <Button onClick={onNew} className="w-full" size="sm">
+          <Plus className="h-4 w-4 mr-2" />
+          New chat
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : visible.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-6">
+              {showArchived ? 'No archived conversations' : 'No conversations yet'}
+            </p>
+          ) : (
+            visible.map((conversation) => (
+              <div
+                key={conversation.id}
+                className={cn(
+                  'group flex items-center gap-2 rounded-lg px-2 py-2 text-sm cursor-pointer transition-colors',
+                  conversation.id === activeConversationId
+                    ? 'bg-primary/10 text-primary'
+                    : 'hover:bg-muted'
+                )}
+                onClick={() => renamingId !== conversation.id && onSelect(conversation.id)}
+              >
+                <MessageSquare className="h-4 w-4 flex-shrink-0" />
+                {renamingId === conversation.id ? (
+                  <form onSubmit={submitRename} className="flex-1">
+                    <Input
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={submitRename}
+                      onKeyDown={(e) => e.key === 'Escape' && setRenamingId(null)}
+                      className="h-7 text-sm"
+                      maxLength={100}
+                      autoFocus
+                    />
+                  </form>
+                ) : (
+                  <span className="flex-1 truncate">{conversation.title || 'New conversation'}</span>
+                )}
+
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 opacity-0 group-hover:opacity-100 flex-shrink-0"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                    <DropdownMenuItem onClick={() => startRename(conversation)}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Rename
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => onArchive(conversation.id, !conversation.archived)}>
+                      {conversation.archived ? (
+                        <>
+                          <ArchiveRestore className="h-4 w-4 mr-2" />
+                          Restore
+                        </>
+                      ) : (
+                        <>
+                          <Archive className="h-4 w-4 mr-2" />
+                          Archive
+                        </>
+                      )}
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      onClick={() => setPendingDelete(conversation)}
+                      className="text-destructive focus:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            ))
+          )}
+        </div>
+      </ScrollArea>
+
+      <div className="p-2 border-t border-border">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full justify-start text-xs text-muted-foreground"
+          onClick={() => setShowArchived(!showArchived)}
+        >
+          <Archive className="h-3 w-3 mr-2" />
+          {showArchived ? 'Back to conversations' : `Archived (${archivedCount})`}
+        </Button>
+      </div>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title || 'New conversation'}" and all of its messages will be permanently removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDelete && onDelete(pendingDelete.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
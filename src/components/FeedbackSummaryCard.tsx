@@ -0,0 +1,79 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { useFeedbackSummary } from '@/hooks/useFeedbackSummary';
+import { ThumbsUp, ThumbsDown } from 'lucide-react';
+
+interface FeedbackSummaryCardProps {
+  scope: 'mine' | 'all';
+}
+
+/**
+ * FEEDBACK SUMMARY CARD
+ * =====================
+ * Like ratio and the most-disliked questions from message feedback.
+ */
+export const FeedbackSummaryCard = ({ scope }: FeedbackSummaryCardProps) => {
+  const { likes, dislikes, likeRatio, mostDisliked, isLoading, error } = useFeedbackSummary(scope);
+  const total = likes + dislikes;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <ThumbsUp className="h-5 w-5 text-primary" />
+          <div>
+            <CardTitle className="text-lg">Answer Feedback</CardTitle>
+            <CardDescription>
+              {scope === 'mine' ? 'How you rated the assistant' : 'Ratings from all users'}
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-[160px] w-full" />
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : total === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">
+            No rated answers yet
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-1 text-green-600">
+                  <ThumbsUp className="h-4 w-4" /> {likes} helpful
+                </span>
+                <span className="font-medium">{likeRatio}% liked</span>
+                <span className="flex items-center gap-1 text-red-500">
+                  <ThumbsDown className="h-4 w-4" /> {dislikes} not helpful
+                </span>
+              </div>
+              <Progress value={likeRatio} />
+            </div>
+
+            {mostDisliked.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Most disliked questions</p>
+                {mostDisliked.map((item) => (
+                  <div
+                    key={item.question}
+                    className="flex items-center gap-3 p-3 rounded-lg bg-muted/50 border border-border"
+                  >
+                    <p className="flex-1 text-sm truncate">{item.question}</p>
+                    <Badge variant="outline" className="text-xs text-red-500">
+                      {item.dislikes} <ThumbsDown className="h-3 w-3 ml-1" />
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AudioDeviceSelector } from '@/components/AudioDeviceSelector';
+import { createClient } from '@supabase/supabase-js';
+import { Loader2, LogOut, Lock } from 'lucide-react';
+
+interface KioskAdminDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Email of the signed-in kiosk account, whose password unlocks the panel */
+  email: string;
+  onExit: () => void;
+}
+
+/**
+ * Check the kiosk account's password on a client of its own, so the kiosk's
+ * session is not replaced and no auth event reaches the running page.
+ */
+const verifyPassword = async (email: string, password: string) => {
+  const client = createClient(import.meta.env.VITE_SUPABASE_URL, import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false, storageKey: 'kiosk-unlock' },
+  });
+  const { error } = await client.auth.signInWithPassword({ email, password });
+  if (!error) await client.auth.signOut({ scope: 'local' });
+  return !error;
+};
+
+/**
+ * KIOSK ADMIN DIALOG
+ * ==================
+ * Staff panel opened by the hidden exit gesture on /kiosk. Asks for the
+ * kiosk account's password, then offers audio device setup (the booth's
+ * USB microphone and speakers) and leaving kiosk mode.
+ */
+export const KioskAdminDialog = ({ open, onOpenChange, email, onExit }: KioskAdminDialogProps) => {
+  const [password, setPassword] = useState('');
+  const [isUnlocked, setIsUnlocked] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      // Lock again so the next visitor cannot reopen an unlocked panel
+      setPassword('');
+      setIsUnlocked(false);
+      setError(null);
+    }
+    onOpenChange(next);
+  };
+
+  const unlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsChecking(true);
+    setError(null);
+
+    const verified = await verifyPassword(email, password);
+    setIsChecking(false);
+    setPassword('');
+
+    if (!verified) {
+      setError('Incorrect password.');
+      return;
+    }
+    setIsUnlocked(true);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="h-4 w-4" />
+            Kiosk settings
+          </DialogTitle>
+          <DialogDescription>
+            {isUnlocked
+              ? 'Choose the booth microphone and speaker, or leave kiosk mode.'
+              : `Enter the password for ${email} to continue.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isUnlocked ? (
+          <>
+            <AudioDeviceSelector showOutputDevice={true} />
+            <DialogFooter className="gap-2">
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Back to kiosk
+              </Button>
+              <Button variant="destructive" onClick={onExit}>
+                <LogOut className="h-4 w-4 mr-2" />
+                Exit kiosk mode
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={unlock} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="kiosk-password">Password</Label>
+              <Input
+                id="kiosk-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="off"
+                autoFocus
+              />
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={!password || isChecking}>
+                {isChecking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Unlock
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,40 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Globe } from 'lucide-react';
+import { Language, LANGUAGES } from '@/lib/languages';
+
+const DEFAULT_VALUE = 'default';
+
+interface LanguageSelectProps {
+  /** Conversation override, or null when following the profile */
+  value: string | null;
+  profileLanguage: Language;
+  onChange: (code: string | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * LANGUAGE SELECT COMPONENT
+ * =========================
+ * Per-conversation language picker for the chat headers.
+ * "Default" follows the language set in Profile > Preferences.
+ */
+export const LanguageSelect = ({ value, profileLanguage, onChange, disabled }: LanguageSelectProps) => (
+  <Select
+    value={value ?? DEFAULT_VALUE}
+    onValueChange={(next) => onChange(next === DEFAULT_VALUE ? null : next)}
+    disabled={disabled}
+  >
+    <SelectTrigger className="w-40" aria-label="Conversation language">
+      <Globe className="h-4 w-4 mr-2 flex-shrink-0" />
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value={DEFAULT_VALUE}>Default ({profileLanguage.label})</SelectItem>
+      {LANGUAGES.map((language) => (
+        <SelectItem key={language.code} value={language.code}>
+          {language.label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
@@ -1,12 +1,15 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { useToast } from '@/hooks/use-toast';
-import { Copy, ThumbsUp, ThumbsDown, Check, Volume2, VolumeX } from 'lucide-react';
+import { Reaction } from '@/hooks/useMessageFeedback';
+import { Copy, ThumbsUp, ThumbsDown, Check, Volume2, VolumeX, Pause, Play, SkipForward } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface MessageActionsProps {
@@ -16,6 +19,14 @@ interface MessageActionsProps {
   className?: string;
   onSpeak?: () => void;
   isSpeaking?: boolean;
+  /** Playback controls, shown while this message is being read aloud */
+  isPaused?: boolean;
+  onPauseResume?: () => void;
+  onSkipSentence?: () => void;
+  /** Saved reaction for this answer */
+  reaction?: Reaction | null;
+  /** Omit for answers that are not stored yet; reactions are hidden then */
+  onReaction?: (reaction: Reaction | null, reason?: string) => void;
 }
 
 /**
@@ -23,8 +34,8 @@ interface MessageActionsProps {
  * =========================
  * Provides action buttons for chat messages:
  * - Copy to clipboard
- * - Like/dislike reactions
- * - Text-to-speech playback
+ * - Like/dislike reactions, with an optional reason on dislike
+ * - Text-to-speech playback, with pause/resume and skip-sentence while reading
  */
 export const MessageActions = ({
   content,
@@ -33,9 +44,15 @@ export const MessageActions = ({
   className,
   onSpeak,
   isSpeaking,
+  isPaused,
+  onPauseResume,
+  onSkipSentence,
+  reaction = null,
+  onReaction,
 }: MessageActionsProps) => {
   const [copied, setCopied] = useState(false);
-  const [reaction, setReaction] = useState<'like' | 'dislike' | null>(null);
+  const [isReasonOpen, setIsReasonOpen] = useState(false);
+  const [reason, setReason] = useState('');
   const { toast } = useToast();
 
   const handleCopy = async () => {
@@ -54,9 +71,23 @@ export const MessageActions = ({
     }
   };
 
-  const handleReaction = (type: 'like' | 'dislike') => {
-    setReaction(reaction === type ? null : type);
-    // Could send feedback to analytics here
+  const handleReaction = (type: Reaction) => {
+    const next = reaction === type ? null : type;
+    onReaction?.(next);
+    if (next === 'dislike') {
+      setReason('');
+      setIsReasonOpen(true);
+    }
+  };
+
+  const submitReason = () => {
+    if (reason.trim()) {
+      onReaction?.('dislike', reason);
+      toast({
+        description: 'Thanks for the feedback',
+      });
+    }
+    setIsReasonOpen(false);
   };
 
   return (
@@ -80,36 +111,63 @@ export const MessageActions = ({
         <TooltipContent>Copy message</TooltipContent>
       </Tooltip>
 
-      {/* Reactions - only for assistant messages */}
       {isAssistant && (
         <>
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button
-                variant="ghost"
-                size="icon"
-                className={cn('h-7 w-7', reaction === 'like' && 'text-green-500')}
-                onClick={() => handleReaction('like')}
-              >
-                <ThumbsUp className="h-3.5 w-3.5" />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent>Helpful</TooltipContent>
-          </Tooltip>
+          {/* Reactions - only for stored assistant messages */}
+          {onReaction && (
+            <>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className={cn('h-7 w-7', reaction === 'like' && 'text-green-500')}
+                    onClick={() => handleReaction('like')}
+                  >
+                    <ThumbsUp className="h-3.5 w-3.5" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Helpful</TooltipContent>
+              </Tooltip>
 
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button
-                variant="ghost"
-                size="icon"
-                className={cn('h-7 w-7', reaction === 'dislike' && 'text-red-500')}
-                onClick={() => handleReaction('dislike')}
-              >
-                <ThumbsDown className="h-3.5 w-3.5" />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent>Not helpful</TooltipContent>
-          </Tooltip>
+              {/* Opened by handleReaction only, so un-disliking does not ask for a reason */}
+              <Popover open={isReasonOpen} onOpenChange={(open) => !open && setIsReasonOpen(false)}>
+                <Tooltip>
+                  <PopoverTrigger asChild>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className={cn('h-7 w-7', reaction === 'dislike' && 'text-red-500')}
+                        onClick={() => handleReaction('dislike')}
+                      >
+                        <ThumbsDown className="h-3.5 w-3.5" />
+                      </Button>
+                    </TooltipTrigger>
+                  </PopoverTrigger>
+                  <TooltipContent>Not helpful</TooltipContent>
+                </Tooltip>
+                <PopoverContent align="end" className="w-72 space-y-2">
+                  <p className="text-sm font-medium">What was wrong with this answer?</p>
+                  <Textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Optional - e.g. outdated fee details"
+                    className="min-h-[80px] text-sm"
+                    maxLength={500}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setIsReasonOpen(false)}>
+                      Skip
+                    </Button>
+                    <Button size="sm" onClick={submitReason}>
+                      Send
+                    </Button>
+                  </div>
+                </PopoverContent>
+              </Popover>
+            </>
+          )}
 
           {/* Text-to-Speech */}
           {onSpeak && (
@@ -131,6 +189,42 @@ export const MessageActions = ({
               <TooltipContent>{isSpeaking ? 'Stop' : 'Read aloud'}</TooltipContent>
             </Tooltip>
           )}
+
+          {isSpeaking && onPauseResume && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={onPauseResume}
+                >
+                  {isPaused ? (
+                    <Play className="h-3.5 w-3.5" />
+                  ) : (
+                    <Pause className="h-3.5 w-3.5" />
+                  )}
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>{isPaused ? 'Resume' : 'Pause'}</TooltipContent>
+            </Tooltip>
+          )}
+
+          {isSpeaking && onSkipSentence && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={onSkipSentence}
+                >
+                  <SkipForward className="h-3.5 w-3.5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Next sentence</TooltipContent>
+            </Tooltip>
+          )}
         </>
       )}
     </div>
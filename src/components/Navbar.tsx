@@ -1,6 +1,7 @@
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
+import { useRole } from '@/hooks/useRole';
 import { useTheme } from '@/components/ThemeProvider';
 import { useScrollDirection } from '@/hooks/useScrollAnimation';
 import { CommandSearch } from '@/components/CommandSearch';
@@ -16,6 +17,7 @@ import {
   Keyboard,
   Headphones,
   Settings,
+  ShieldCheck,
 } from 'lucide-react';
 import { useState } from 'react';
 import {
@@ -30,6 +32,7 @@ import { cn } from '@/lib/utils';
 
 export const Navbar = () => {
   const { user, signOut } = useAuth();
+  const { isAdmin } = useRole();
   const navigate = useNavigate();
   const location = useLocation();
   const { theme, setTheme } = useTheme();
@@ -51,10 +54,11 @@ export const Navbar = () => {
   const chatLinks = [
     { name: 'Text Chat', path: '/text-chat', icon: Keyboard },
     { name: 'Voice Chat', path: '/voice-chat', icon: Headphones },
+    { name: 'Mixed Chat', path: '/mixed-chat', icon: MessageSquare },
   ];
 
   const isActive = (path: string) => location.pathname === path;
-  const isChatActive = ['/chatbot', '/text-chat', '/voice-chat'].includes(location.pathname);
+  const isChatActive = ['/chatbot', '/text-chat', '/voice-chat', '/mixed-chat'].includes(location.pathname);
 
   return (
     <nav className={cn(
@@ -152,6 +156,14 @@ export const Navbar = () => {
                       Profile Settings
                     </Link>
                   </DropdownMenuItem>
+                  {isAdmin && (
+                    <DropdownMenuItem asChild>
+                      <Link to="/admin" className="flex items-center">
+                        <ShieldCheck className="h-4 w-4 mr-2" />
+                        Admin Console
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={handleSignOut} className="text-destructive">
                     <LogOut className="h-4 w-4 mr-2" />
@@ -236,6 +248,14 @@ export const Navbar = () => {
                         Profile Settings
                       </Link>
                     </Button>
+                    {isAdmin && (
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link to="/admin" onClick={() => setIsMenuOpen(false)}>
+                          <ShieldCheck className="h-4 w-4 mr-2" />
+                          Admin Console
+                        </Link>
+                      </Button>
+                    )}
                     <Button variant="outline" size="sm" onClick={handleSignOut}>
                       <LogOut className="h-4 w-4 mr-2" />
                       Sign Out
@@ -0,0 +1,36 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { RateLimitInfo } from '@/lib/rateLimit';
+import { Clock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface RateLimitNoticeProps {
+  rateLimit: RateLimitInfo;
+  secondsLeft: number;
+  className?: string;
+}
+
+const formatCountdown = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${minutes}:${pad(secs)}`;
+};
+
+/**
+ * RATE LIMIT NOTICE COMPONENT
+ * ===========================
+ * Shows which chat limit was reached and a countdown until it resets.
+ */
+export const RateLimitNotice = ({ rateLimit, secondsLeft, className }: RateLimitNoticeProps) => {
+  return (
+    <Alert className={cn('border-amber-500/50 text-amber-700 dark:text-amber-400', className)}>
+      <Clock className="h-4 w-4 !text-amber-500" />
+      <AlertTitle>Slow down</AlertTitle>
+      <AlertDescription>
+        {rateLimit.message} You can send again in{' '}
+        <span className="font-mono font-medium">{formatCountdown(secondsLeft)}</span>.
+      </AlertDescription>
+    </Alert>
+  );
+};
@@ -0,0 +1,169 @@
+import { Fragment, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { DraftWord, LOW_CONFIDENCE, draftText, reconcileDraft } from '@/lib/transcriptDraft';
+import { cn } from '@/lib/utils';
+import { Pencil, Check, Trash2 } from 'lucide-react';
+
+interface TranscriptEditorProps {
+  words: DraftWord[];
+  onChange: (words: DraftWord[]) => void;
+  onSend: (text: string) => void;
+  disabled?: boolean;
+}
+
+const isUncertain = (word: DraftWord) =>
+  (word.confidence > 0 && word.confidence < LOW_CONFIDENCE) || word.alternatives.length > 0;
+
+/**
+ * TRANSCRIPT EDITOR COMPONENT
+ * ===========================
+ * Shows a voice transcript before it is sent. Words the recognizer was
+ * unsure of are underlined; tapping any word offers what else it may have
+ * heard, a box to type the right word, or removing it. "Edit" switches to
+ * a plain text box where Enter sends and Shift+Enter adds a new line.
+ */
+export const TranscriptEditor = ({ words, onChange, onSend, disabled }: TranscriptEditorProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [text, setText] = useState('');
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const [replacement, setReplacement] = useState('');
+
+  // Speech appended while the text box is open shows up in it
+  useEffect(() => {
+    if (isEditing && draftText(words) !== text.split(/\s+/).filter(Boolean).join(' ')) {
+      setText(draftText(words));
+    }
+  }, [isEditing, words, text]);
+
+  const startEditing = () => {
+    setText(draftText(words));
+    setIsEditing(true);
+  };
+
+  const replaceWord = (index: number, value: string) => {
+    const word = words[index];
+    const next = words.slice();
+    if (value.trim()) {
+      // The replaced word stays on offer in case the pick was wrong
+      next[index] = {
+        text: value.trim(),
+        confidence: 1,
+        alternatives: [word.text, ...word.alternatives.filter(a => a !== value)],
+      };
+    } else {
+      next.splice(index, 1);
+    }
+    onChange(next);
+    setOpenIndex(null);
+  };
+
+  const openWord = (index: number | null) => {
+    setOpenIndex(index);
+    setReplacement(index === null ? '' : words[index].text);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="space-y-2">
+        <Textarea
+          autoFocus
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            onChange(reconcileDraft(words, e.target.value));
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              if (!disabled && text.trim()) onSend(text.trim());
+            }
+          }}
+          className="min-h-[72px] text-sm"
+          aria-label="Edit transcript"
+        />
+        <div className="flex justify-end">
+          <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+            <Check className="h-4 w-4 mr-1" />
+            Done
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-start gap-2">
+      <p className="text-sm min-h-[2rem] flex-1 leading-7">
+        {words.map((word, i) => (
+          <Fragment key={i}>
+            {i > 0 && ' '}
+            <Popover open={openIndex === i} onOpenChange={(open) => openWord(open ? i : null)}>
+              <PopoverTrigger asChild>
+                <button
+                  type="button"
+                  className={cn(
+                    'rounded px-0.5 hover:bg-primary/10 focus:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                    isUncertain(word) && 'underline decoration-dotted decoration-destructive underline-offset-4'
+                  )}
+                  title={word.confidence > 0 && word.confidence < 1 ? `${Math.round(word.confidence * 100)}% confidence` : undefined}
+                >
+                  {word.text}
+                </button>
+              </PopoverTrigger>
+              <PopoverContent align="start" className="w-60 space-y-2">
+                {word.alternatives.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {word.alternatives.map((alternative) => (
+                      <Button
+                        key={alternative}
+                        variant="secondary"
+                        size="sm"
+                        className="h-7"
+                        onClick={() => replaceWord(i, alternative)}
+                      >
+                        {alternative}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+                <Input
+                  value={replacement}
+                  onChange={(e) => setReplacement(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      replaceWord(i, replacement);
+                    }
+                  }}
+                  placeholder="Type the right word"
+                  className="h-8 text-sm"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full justify-start text-destructive"
+                  onClick={() => replaceWord(i, '')}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Remove word
+                </Button>
+              </PopoverContent>
+            </Popover>
+          </Fragment>
+        ))}
+      </p>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 flex-shrink-0"
+        onClick={startEditing}
+        aria-label="Edit transcript as text"
+      >
+        <Pencil className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
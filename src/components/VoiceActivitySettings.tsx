@@ -0,0 +1,101 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { AudioLines } from 'lucide-react';
+import { VoiceActivitySettings as Settings } from '@/hooks/useVoiceActivity';
+import { cn } from '@/lib/utils';
+
+interface VoiceActivitySettingsProps {
+  settings: Settings;
+  onChange: (updates: Partial<Settings>) => void;
+  /** Current microphone level (0-1), shown against the threshold while listening */
+  level: number;
+  isListening: boolean;
+}
+
+/**
+ * VOICE ACTIVITY SETTINGS COMPONENT
+ * =================================
+ * Tunes end-of-speech detection for auto-send: the level below which the
+ * microphone counts as silent, and how long that silence must last.
+ * Also switches barge-in (talking over a spoken reply) on or off.
+ */
+export const VoiceActivitySettings = ({
+  settings,
+  onChange,
+  level,
+  isListening,
+}: VoiceActivitySettingsProps) => (
+  <Card className="border-primary/20">
+    <CardHeader className="pb-3">
+      <CardTitle className="text-base flex items-center gap-2">
+        <AudioLines className="h-4 w-4" />
+        Speech Detection
+      </CardTitle>
+    </CardHeader>
+
+    <CardContent className="space-y-5">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Silence threshold</Label>
+          <span className="text-xs text-muted-foreground">{Math.round(settings.silenceThreshold * 100)}%</span>
+        </div>
+        {/* Live level meter with the threshold marked */}
+        <div className="relative h-2 rounded-full bg-secondary overflow-hidden">
+          <div
+            className={cn(
+              'absolute inset-y-0 left-0 transition-[width] duration-75',
+              level >= settings.silenceThreshold ? 'bg-green-500' : 'bg-muted-foreground/40'
+            )}
+            style={{ width: `${isListening ? level * 100 : 0}%` }}
+          />
+          <div
+            className="absolute inset-y-0 w-0.5 bg-primary"
+            style={{ left: `${settings.silenceThreshold * 100}%` }}
+          />
+        </div>
+        <Slider
+          value={[settings.silenceThreshold]}
+          onValueChange={([value]) => onChange({ silenceThreshold: value })}
+          min={0.05}
+          max={0.9}
+          step={0.05}
+        />
+        <p className="text-xs text-muted-foreground">
+          {isListening
+            ? 'Speak normally: the bar should turn green while you talk and drop below the line when you stop.'
+            : 'Start listening to see your microphone level.'}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Pause before auto-send</Label>
+          <span className="text-xs text-muted-foreground">{(settings.hangTime / 1000).toFixed(1)}s</span>
+        </div>
+        <Slider
+          value={[settings.hangTime]}
+          onValueChange={([value]) => onChange({ hangTime: value })}
+          min={500}
+          max={4000}
+          step={100}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="barge-in">Interrupt replies by speaking</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Turn off if you use loudspeakers and replies stop by themselves.
+          </p>
+        </div>
+        <Switch
+          id="barge-in"
+          checked={settings.bargeIn}
+          onCheckedChange={(checked) => onChange({ bargeIn: checked })}
+        />
+      </div>
+    </CardContent>
+  </Card>
+);
@@ -0,0 +1,89 @@
+import { useEffect, useRef, useState } from 'react';
+import { Loader2, Play, Square } from 'lucide-react';
+import { useVoiceClips } from '@/hooks/useVoiceClips';
+import { cn } from '@/lib/utils';
+
+interface VoiceClipPlayerProps {
+  /** Storage paths of the question's clips, played one after another */
+  paths: string[];
+  className?: string;
+}
+
+/**
+ * VOICE CLIP PLAYER COMPONENT
+ * ===========================
+ * Small play/stop control on a voice question bubble that plays back
+ * what was actually said, next to what was recognized.
+ */
+export const VoiceClipPlayer = ({ paths, className }: VoiceClipPlayerProps) => {
+  const { getClipUrls } = useVoiceClips();
+  const [state, setState] = useState<'idle' | 'loading' | 'playing' | 'error'>('idle');
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const stop = () => {
+    if (audioRef.current) {
+      audioRef.current.onended = null;
+      audioRef.current.pause();
+      audioRef.current = null;
+    }
+    setState('idle');
+  };
+
+  // Stop playback when the bubble goes away
+  useEffect(() => () => {
+    audioRef.current?.pause();
+  }, []);
+
+  const play = async () => {
+    setState('loading');
+    try {
+      const urls = await getClipUrls(paths);
+      if (!urls.some(Boolean)) throw new Error('No playable recordings');
+      const playFrom = async (index: number) => {
+        if (index >= urls.length) {
+          audioRef.current = null;
+          setState('idle');
+          return;
+        }
+        // Skip a clip that could not be linked and keep the rest in order
+        const url = urls[index];
+        if (!url) {
+          await playFrom(index + 1);
+          return;
+        }
+        const audio = new Audio(url);
+        audio.onended = () => {
+          playFrom(index + 1).catch(stop);
+        };
+        audioRef.current = audio;
+        await audio.play();
+      };
+      await playFrom(0);
+      setState('playing');
+    } catch (err) {
+      console.error('Error playing voice clip:', err);
+      audioRef.current = null;
+      setState('error');
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={state === 'playing' ? stop : play}
+      disabled={state === 'loading'}
+      className={cn('flex items-center gap-1 hover:underline disabled:opacity-70', className)}
+      aria-label={state === 'playing' ? 'Stop recording' : 'Play recording'}
+      title={state === 'error' ? 'Recording could not be played' : undefined}
+    >
+      {state === 'loading' ? (
+        <Loader2 className="h-3 w-3 animate-spin" />
+      ) : state === 'playing' ? (
+        <Square className="h-3 w-3" />
+      ) : (
+        <Play className="h-3 w-3" />
+      )}
+      Recording
+    </button>
+  );
+};
@@ -0,0 +1,41 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { MessageSquareQuote, X } from 'lucide-react';
+import { VOICE_COMMANDS } from '@/lib/voiceCommands';
+
+interface VoiceCommandHelpProps {
+  onClose: () => void;
+}
+
+/**
+ * VOICE COMMAND HELP COMPONENT
+ * ============================
+ * Lists the phrases voice chat handles itself instead of sending them
+ * to the assistant. Opened from the header or by saying "What can I say?".
+ */
+export const VoiceCommandHelp = ({ onClose }: VoiceCommandHelpProps) => (
+  <Card className="border-primary/20">
+    <CardHeader className="pb-3 flex-row items-center justify-between space-y-0">
+      <CardTitle className="text-base flex items-center gap-2">
+        <MessageSquareQuote className="h-4 w-4" />
+        Voice Commands
+      </CardTitle>
+      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} aria-label="Close voice commands">
+        <X className="h-4 w-4" />
+      </Button>
+    </CardHeader>
+    <CardContent>
+      <p className="text-xs text-muted-foreground mb-3">
+        Say one of these on its own; anything else is sent as a question.
+      </p>
+      <dl className="grid gap-x-6 gap-y-2 sm:grid-cols-2 text-sm">
+        {VOICE_COMMANDS.map(({ command, example, description }) => (
+          <div key={command} className="flex items-baseline justify-between gap-3">
+            <dt className="font-medium">"{example}"</dt>
+            <dd className="text-muted-foreground text-right">{description}</dd>
+          </div>
+        ))}
+      </dl>
+    </CardContent>
+  </Card>
+);
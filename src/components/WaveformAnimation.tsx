@@ -5,19 +5,45 @@ interface WaveformAnimationProps {
   isActive: boolean;
   className?: string;
   barCount?: number;
+  /** Live microphone levels (0-1, oldest first); replaces the CSS animation when given */
+  levels?: number[];
 }
 
+const MIN_BAR_HEIGHT = 8;
+const MAX_BAR_HEIGHT = 32;
+
 /**
  * WAVEFORM ANIMATION COMPONENT
  * ============================
- * Animated audio waveform visualization for voice chat.
- * Shows responsive bars that animate when microphone is active.
+ * Audio waveform visualization for voice chat.
+ * With levels the bars follow the real microphone input (see useVoiceActivity);
+ * without them the bars play a looping animation while the microphone is active.
  */
 export const WaveformAnimation = ({
   isActive,
   className,
   barCount = 5,
+  levels,
 }: WaveformAnimationProps) => {
+  if (levels) {
+    const bars = levels.slice(-barCount);
+    return (
+      <div className={cn('flex items-center justify-center gap-1', className)} style={{ height: MAX_BAR_HEIGHT }}>
+        {bars.map((level, i) => (
+          <div
+            key={i}
+            className="w-1 rounded-full bg-primary transition-[height] duration-75"
+            style={{
+              height: isActive
+                ? MIN_BAR_HEIGHT + level * (MAX_BAR_HEIGHT - MIN_BAR_HEIGHT)
+                : MIN_BAR_HEIGHT,
+            }}
+          />
+        ))}
+      </div>
+    );
+  }
+
   return (
     <div className={cn('flex items-center justify-center gap-1', className)}>
       {Array.from({ length: barCount }).map((_, i) => (
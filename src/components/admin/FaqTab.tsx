@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useFaqSuggestions, faqIcon, FAQ_ICONS, FaqSuggestion } from '@/hooks/useFaqSuggestions';
+import { HelpCircle, Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+
+/**
+ * FAQ TAB
+ * =======
+ * Manage the "Common Questions" shown in the command search.
+ */
+export const FaqTab = () => {
+  const { toast } = useToast();
+  const { suggestions, isLoading, refresh } = useFaqSuggestions();
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState('');
+  const [icon, setIcon] = useState('help-circle');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const showError = (description: string) => {
+    toast({
+      title: 'Error',
+      description,
+      variant: 'destructive'
+    });
+  };
+
+  const addSuggestion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim() || !category.trim()) return;
+
+    setIsSaving(true);
+    const lastOrder = suggestions.reduce((max, s) => Math.max(max, s.sortOrder), 0);
+    const { error } = await supabase
+      .from('faq_suggestions')
+      .insert({ query: query.trim(), category: category.trim(), icon, sort_order: lastOrder + 10 });
+    setIsSaving(false);
+
+    if (error) {
+      showError('Failed to add suggestion.');
+      return;
+    }
+
+    setQuery('');
+    setCategory('');
+    setIcon('help-circle');
+    refresh();
+  };
+
+  const toggleEnabled = async (faq: FaqSuggestion) => {
+    const { error } = await supabase
+      .from('faq_suggestions')
+      .update({ enabled: !faq.enabled })
+      .eq('id', faq.id);
+
+    if (error) {
+      showError('Failed to update suggestion.');
+      return;
+    }
+    refresh();
+  };
+
+  // Swap sort order with the neighbour in the given direction
+  const move = async (index: number, direction: -1 | 1) => {
+    const current = suggestions[index];
+    const other = suggestions[index + direction];
+    if (!current || !other) return;
+
+    const results = await Promise.all([
+      supabase.from('faq_suggestions').update({ sort_order: other.sortOrder }).eq('id', current.id),
+      supabase.from('faq_suggestions').update({ sort_order: current.sortOrder }).eq('id', other.id),
+    ]);
+
+    if (results.some((r) => r.error)) {
+      showError('Failed to reorder suggestions.');
+    }
+    refresh();
+  };
+
+  const deleteSuggestion = async (faq: FaqSuggestion) => {
+    const { error } = await supabase
+      .from('faq_suggestions')
+      .delete()
+      .eq('id', faq.id);
+
+    if (error) {
+      showError('Failed to delete suggestion.');
+      return;
+    }
+    refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <HelpCircle className="h-5 w-5 text-primary" />
+          <div>
+            <CardTitle className="text-lg">FAQ Suggestions</CardTitle>
+            <CardDescription>Common questions offered in the search dialog (Ctrl+K)</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={addSuggestion} className="flex gap-2 flex-wrap">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Question, e.g. Scholarship details"
+            className="flex-1 min-w-[200px]"
+            maxLength={100}
+          />
+          <Input
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            placeholder="Category"
+            className="w-36"
+            maxLength={30}
+          />
+          <Select value={icon} onValueChange={setIcon}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(FAQ_ICONS).map(([key, Icon]) => (
+                <SelectItem key={key} value={key}>
+                  <span className="flex items-center gap-2">
+                    <Icon className="h-4 w-4" />
+                    {key}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={isSaving || !query.trim() || !category.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <Skeleton className="h-[240px] w-full" />
+        ) : (
+          <div className="space-y-2">
+            {suggestions.map((faq, index) => {
+              const Icon = faqIcon(faq.icon);
+              return (
+                <div
+                  key={faq.id}
+                  className="flex items-center gap-3 rounded-lg border border-border px-3 py-2"
+                >
+                  <Icon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  <span className={`flex-1 truncate ${faq.enabled ? '' : 'text-muted-foreground line-through'}`}>
+                    {faq.query}
+                  </span>
+                  <span className="text-xs text-muted-foreground">{faq.category}</span>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => move(index, -1)} disabled={index === 0}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => move(index, 1)}
+                    disabled={index === suggestions.length - 1}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Switch checked={faq.enabled} onCheckedChange={() => toggleEnabled(faq)} />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-destructive"
+                    onClick={() => deleteSuggestion(faq)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            {suggestions.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">No suggestions yet</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
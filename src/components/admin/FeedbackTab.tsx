@@ -0,0 +1,63 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { FeedbackSummaryCard } from '@/components/FeedbackSummaryCard';
+import { useFeedbackSummary } from '@/hooks/useFeedbackSummary';
+import { ThumbsDown } from 'lucide-react';
+
+/**
+ * FEEDBACK TAB
+ * ============
+ * Overall rating summary and the latest answers users marked as not helpful,
+ * with the reason they gave.
+ */
+export const FeedbackTab = () => {
+  const { lowRated, isLoading } = useFeedbackSummary('all');
+
+  return (
+    <div className="space-y-6">
+      <FeedbackSummaryCard scope="all" />
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <ThumbsDown className="h-5 w-5 text-primary" />
+            <div>
+              <CardTitle className="text-lg">Low-Rated Answers</CardTitle>
+              <CardDescription>Most recent answers marked as not helpful</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-[240px] w-full" />
+          ) : lowRated.length > 0 ? (
+            <div className="space-y-4">
+              {lowRated.map((item) => (
+                <div key={item.chatId} className="rounded-lg border border-border p-4 space-y-2">
+                  <div className="flex items-start justify-between gap-3">
+                    <p className="font-medium text-sm">{item.question}</p>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {item.provider && <Badge variant="secondary" className="text-xs">{item.provider}</Badge>}
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(item.ratedAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground line-clamp-3 whitespace-pre-wrap">{item.answer}</p>
+                  {item.reason && (
+                    <p className="text-sm border-l-2 border-red-500 pl-3 italic">"{item.reason}"</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="py-8 text-center text-muted-foreground">
+              No answers have been marked as not helpful
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { BookOpen, Upload, Trash2, Loader2 } from 'lucide-react';
+
+type ContentType = 'markdown' | 'text' | 'pdf';
+
+interface KnowledgeDocument {
+  id: string;
+  source: string;
+  title: string;
+  contentType: string;
+  chunks: number;
+  updatedAt: string;
+}
+
+/**
+ * KNOWLEDGE TAB
+ * =============
+ * Lists campus knowledge documents and adds or replaces them through
+ * the knowledge-ingest function. Re-using a source replaces that document.
+ */
+export const KnowledgeTab = () => {
+  const { toast } = useToast();
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isIngesting, setIsIngesting] = useState(false);
+  const [source, setSource] = useState('');
+  const [title, setTitle] = useState('');
+  const [contentType, setContentType] = useState<ContentType>('markdown');
+  const [content, setContent] = useState('');
+
+  const fetchDocuments = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('knowledge_documents')
+      .select('id, source, title, content_type, updated_at, knowledge_chunks(count)')
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading knowledge documents:', error);
+    } else {
+      setDocuments((data || []).map((doc) => ({
+        id: doc.id,
+        source: doc.source,
+        title: doc.title,
+        contentType: doc.content_type,
+        chunks: doc.knowledge_chunks?.[0]?.count ?? 0,
+        updatedAt: doc.updated_at,
+      })));
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [fetchDocuments]);
+
+  const loadFile = async (file: File) => {
+    setContent(await file.text());
+    if (!source) setSource(file.name.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z0-9]+/g, '-'));
+    if (!title) setTitle(file.name.replace(/\.[^.]+$/, ''));
+    if (file.name.endsWith('.txt')) setContentType('text');
+  };
+
+  const ingest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!source.trim() || !title.trim() || !content.trim()) return;
+
+    setIsIngesting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('knowledge-ingest', {
+        body: { source: source.trim(), title: title.trim(), contentType, content }
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Knowledge Updated',
+        description: `Indexed ${data.chunks} passages from "${title.trim()}".`
+      });
+      setSource('');
+      setTitle('');
+      setContent('');
+      fetchDocuments();
+    } catch (error) {
+      console.error('Error ingesting document:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to ingest document.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsIngesting(false);
+    }
+  };
+
+  const deleteDocument = async (doc: KnowledgeDocument) => {
+    const { error } = await supabase
+      .from('knowledge_documents')
+      .delete()
+      .eq('id', doc.id);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete document.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setDocuments((prev) => prev.filter((d) => d.id !== doc.id));
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Upload className="h-5 w-5 text-primary" />
+            <div>
+              <CardTitle className="text-lg">Add Knowledge</CardTitle>
+              <CardDescription>Paste text or load a Markdown/text file. An existing source is replaced.</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={ingest} className="space-y-3">
+            <div className="flex gap-2 flex-wrap">
+              <Input
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+                placeholder="Source id, e.g. fee-structure-2025"
+                className="flex-1 min-w-[200px]"
+              />
+              <Input
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Title"
+                className="flex-1 min-w-[200px]"
+              />
+              <Select value={contentType} onValueChange={(value) => setContentType(value as ContentType)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="markdown">Markdown</SelectItem>
+                  <SelectItem value="text">Plain text</SelectItem>
+                  <SelectItem value="pdf">PDF text</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              placeholder="Document content..."
+              className="min-h-[160px] font-mono text-sm"
+            />
+            <div className="flex items-center justify-between gap-2">
+              <Input
+                type="file"
+                accept=".md,.markdown,.txt"
+                className="w-64"
+                onChange={(e) => e.target.files?.[0] && loadFile(e.target.files[0])}
+              />
+              <Button type="submit" disabled={isIngesting || !source.trim() || !title.trim() || !content.trim()}>
+                {isIngesting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                Ingest
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5 text-primary" />
+            <div>
+              <CardTitle className="text-lg">Knowledge Documents</CardTitle>
+              <CardDescription>{documents.length} documents available to the assistant</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-[200px] w-full" />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Passages</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {documents.map((doc) => (
+                  <TableRow key={doc.id}>
+                    <TableCell className="font-medium">{doc.title}</TableCell>
+                    <TableCell className="font-mono text-xs">{doc.source}</TableCell>
+                    <TableCell><Badge variant="secondary">{doc.contentType}</Badge></TableCell>
+                    <TableCell className="text-right">{doc.chunks}</TableCell>
+                    <TableCell>{new Date(doc.updatedAt).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-destructive"
+                        onClick={() => deleteDocument(doc)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {documents.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                      No knowledge documents yet
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend
+} from 'recharts';
+import { MessageSquare, Mic, Users, Zap, BarChart3 } from 'lucide-react';
+
+interface DailyVolume {
+  date: string;
+  text: number;
+  voice: number;
+  activeUsers: number;
+  cached: number;
+}
+
+const DAYS = 14;
+
+/**
+ * USAGE TAB
+ * =========
+ * Chat volume across all users for the last two weeks.
+ */
+export const UsageTab = () => {
+  const [volume, setVolume] = useState<DailyVolume[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchVolume = async () => {
+      const { data, error: rpcError } = await supabase.rpc('admin_chat_volume', { _days: DAYS });
+
+      if (rpcError) {
+        console.error('Error loading chat volume:', rpcError);
+        setError('Failed to load chat volume');
+      } else {
+        setVolume((data || []).map((row) => ({
+          date: new Date(row.day).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+          text: Number(row.text_count),
+          voice: Number(row.voice_count),
+          activeUsers: Number(row.active_users),
+          cached: Number(row.cached_count),
+        })));
+      }
+      setIsLoading(false);
+    };
+
+    fetchVolume();
+  }, []);
+
+  const totalText = volume.reduce((acc, d) => acc + d.text, 0);
+  const totalVoice = volume.reduce((acc, d) => acc + d.voice, 0);
+  const totalCached = volume.reduce((acc, d) => acc + d.cached, 0);
+  const peakUsers = Math.max(0, ...volume.map((d) => d.activeUsers));
+  const total = totalText + totalVoice;
+
+  const statCards = [
+    { title: 'Text Chats', value: totalText, icon: MessageSquare, description: `Last ${DAYS} days` },
+    { title: 'Voice Chats', value: totalVoice, icon: Mic, description: `Last ${DAYS} days` },
+    { title: 'Peak Daily Users', value: peakUsers, icon: Users, description: 'Most active users in a day' },
+    {
+      title: 'Cache Hit Rate',
+      value: `${total > 0 ? Math.round((totalCached / total) * 100) : 0}%`,
+      icon: Zap,
+      description: `${totalCached} cached answers`
+    },
+  ];
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center">
+          <p className="text-destructive">{error}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {statCards.map((stat) => (
+          <Card key={stat.title}>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{stat.title}</CardTitle>
+              <stat.icon className="h-4 w-4 text-primary" />
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <Skeleton className="h-8 w-20" />
+              ) : (
+                <>
+                  <div className="text-2xl font-bold">{stat.value}</div>
+                  <p className="text-xs text-muted-foreground">{stat.description}</p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5 text-primary" />
+            <div>
+              <CardTitle className="text-lg">Chat Volume</CardTitle>
+              <CardDescription>Messages per day across all users (UTC)</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-[300px] w-full" />
+          ) : total > 0 ? (
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={volume}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                <XAxis dataKey="date" className="text-xs" tick={{ fill: 'hsl(var(--muted-foreground))' }} />
+                <YAxis className="text-xs" tick={{ fill: 'hsl(var(--muted-foreground))' }} allowDecimals={false} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px'
+                  }}
+                  labelStyle={{ color: 'hsl(var(--foreground))' }}
+                />
+                <Legend />
+                <Bar dataKey="text" name="Text" stackId="chats" fill="hsl(var(--primary))" />
+                <Bar dataKey="voice" name="Voice" stackId="chats" fill="hsl(var(--chart-2))" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-[300px] flex items-center justify-center text-muted-foreground">
+              No chats in the last {DAYS} days
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { UserRole } from '@/hooks/useRole';
+import { Users } from 'lucide-react';
+
+interface AdminUser {
+  userId: string;
+  name: string;
+  email: string | null;
+  role: UserRole;
+  createdAt: string;
+  messageCount: number;
+  lastMessageAt: string | null;
+}
+
+/** Wording for the role-changed toast */
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  student: 'a student',
+  admin: 'an admin',
+  kiosk: 'a kiosk account',
+};
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString() : '—';
+
+/**
+ * USERS TAB
+ * =========
+ * Browse all users with their chat activity and change their role.
+ */
+export const UsersTab = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchUsers = useCallback(async () => {
+    const { data, error } = await supabase.rpc('admin_list_users');
+
+    if (error) {
+      console.error('Error loading users:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load users.',
+        variant: 'destructive'
+      });
+    } else {
+      setUsers((data || []).map((row) => ({
+        userId: row.user_id,
+        name: row.name,
+        email: row.email,
+        role: (row.role as UserRole) || 'student',
+        createdAt: row.created_at,
+        messageCount: Number(row.message_count),
+        lastMessageAt: row.last_message_at,
+      })));
+    }
+    setIsLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const changeRole = async (userId: string, role: UserRole) => {
+    const { error } = await supabase.rpc('set_user_role', { _user_id: userId, _role: role });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to change role.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setUsers((prev) => prev.map((u) => u.userId === userId ? { ...u, role } : u));
+    toast({
+      title: 'Role Updated',
+      description: `User is now ${ROLE_DESCRIPTIONS[role]}.`
+    });
+  };
+
+  const term = search.trim().toLowerCase();
+  const filtered = term
+    ? users.filter((u) => u.name.toLowerCase().includes(term) || u.email?.toLowerCase().includes(term))
+    : users;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            <div>
+              <CardTitle className="text-lg">Users</CardTitle>
+              <CardDescription>{users.length} registered users</CardDescription>
+            </div>
+          </div>
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name or email..."
+            className="w-64"
+          />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-[300px] w-full" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Joined</TableHead>
+                <TableHead className="text-right">Messages</TableHead>
+                <TableHead>Last Active</TableHead>
+                <TableHead>Role</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.map((u) => (
+                <TableRow key={u.userId}>
+                  <TableCell className="font-medium">{u.name}</TableCell>
+                  <TableCell className="text-muted-foreground">{u.email || '—'}</TableCell>
+                  <TableCell>{formatDate(u.createdAt)}</TableCell>
+                  <TableCell className="text-right">{u.messageCount}</TableCell>
+                  <TableCell>{formatDate(u.lastMessageAt)}</TableCell>
+                  <TableCell>
+                    <Select
+                      value={u.role}
+                      onValueChange={(value) => changeRole(u.userId, value as UserRole)}
+                      disabled={u.userId === user?.id}
+                    >
+                      <SelectTrigger className="w-28 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="student">Student</SelectItem>
+                        <SelectItem value="admin">Admin</SelectItem>
+                        <SelectItem value="kiosk">Kiosk</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {filtered.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                    No users found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
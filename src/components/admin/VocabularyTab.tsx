@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useSpeechCorrections, SpeechCorrection } from '@/hooks/useSpeechCorrections';
+import { correctTranscript } from '@/lib/transcriptCorrection';
+import { SpellCheck, Plus, Trash2, ArrowRight } from 'lucide-react';
+
+/**
+ * VOCABULARY TAB
+ * ==============
+ * Manage the campus terms voice chat corrects in speech transcripts
+ * (misheard form → canonical term), with a box to try phrases out.
+ */
+export const VocabularyTab = () => {
+  const { toast } = useToast();
+  const { corrections, isLoading, refresh } = useSpeechCorrections();
+  const [heard, setHeard] = useState('');
+  const [canonical, setCanonical] = useState('');
+  const [sample, setSample] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const showError = (description: string) => {
+    toast({
+      title: 'Error',
+      description,
+      variant: 'destructive'
+    });
+  };
+
+  const addCorrection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!heard.trim() || !canonical.trim()) return;
+
+    setIsSaving(true);
+    const { error } = await supabase
+      .from('speech_corrections')
+      .insert({ heard: heard.trim(), canonical: canonical.trim() });
+    setIsSaving(false);
+
+    if (error) {
+      // 23505: unique_violation on lower(heard)
+      showError(error.code === '23505' ? 'That misheard form is already in the list.' : 'Failed to add correction.');
+      return;
+    }
+
+    setHeard('');
+    setCanonical('');
+    refresh();
+  };
+
+  const toggleEnabled = async (correction: SpeechCorrection) => {
+    const { error } = await supabase
+      .from('speech_corrections')
+      .update({ enabled: !correction.enabled })
+      .eq('id', correction.id);
+
+    if (error) {
+      showError('Failed to update correction.');
+      return;
+    }
+    refresh();
+  };
+
+  const deleteCorrection = async (correction: SpeechCorrection) => {
+    const { error } = await supabase
+      .from('speech_corrections')
+      .delete()
+      .eq('id', correction.id);
+
+    if (error) {
+      showError('Failed to delete correction.');
+      return;
+    }
+    refresh();
+  };
+
+  const preview = sample.trim()
+    ? correctTranscript(sample, corrections.filter(c => c.enabled)).text
+    : '';
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <SpellCheck className="h-5 w-5 text-primary" />
+          <div>
+            <CardTitle className="text-lg">Speech Vocabulary</CardTitle>
+            <CardDescription>
+              Campus terms fixed in voice transcripts before they are sent. Matching ignores case and spacing
+              and tolerates small spelling and sound differences, so add one entry per distinct mishearing.
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={addCorrection} className="flex gap-2 flex-wrap items-center">
+          <Input
+            value={heard}
+            onChange={(e) => setHeard(e.target.value)}
+            placeholder="Heard as, e.g. em set"
+            className="flex-1 min-w-[160px]"
+            maxLength={60}
+          />
+          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+          <Input
+            value={canonical}
+            onChange={(e) => setCanonical(e.target.value)}
+            placeholder="Correct term, e.g. EAMCET"
+            className="flex-1 min-w-[160px]"
+            maxLength={60}
+          />
+          <Button type="submit" disabled={isSaving || !heard.trim() || !canonical.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </form>
+
+        <div className="space-y-2">
+          <Input
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            placeholder="Try a transcript, e.g. what is the em set cut off for c s e"
+          />
+          {preview && (
+            <p className="text-sm text-muted-foreground">
+              Sent as: <span className="text-foreground font-medium">{preview}</span>
+            </p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-[240px] w-full" />
+        ) : (
+          <div className="space-y-2">
+            {corrections.map((correction) => (
+              <div
+                key={correction.id}
+                className="flex items-center gap-3 rounded-lg border border-border px-3 py-2"
+              >
+                <span className={`flex-1 truncate ${correction.enabled ? '' : 'text-muted-foreground line-through'}`}>
+                  {correction.heard}
+                </span>
+                <ArrowRight className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <span className="flex-1 truncate font-medium">{correction.canonical}</span>
+                <Switch checked={correction.enabled} onCheckedChange={() => toggleEnabled(correction)} />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-destructive"
+                  onClick={() => deleteCorrection(correction)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {corrections.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">No corrections yet</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
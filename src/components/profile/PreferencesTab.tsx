@@ -1,16 +1,29 @@
 import { useState, useEffect } from 'react';
-import { Palette, Globe, Mic } from 'lucide-react';
+import { Palette, Globe, Mic, Volume2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
 import { useTheme } from '@/components/ThemeProvider';
+import { DEFAULT_LANGUAGE, LANGUAGES, getLanguage } from '@/lib/languages';
+import { SpeechRecognitionEngine } from '@/hooks/useProfile';
+import { DEFAULT_SPEECH_SETTINGS, SpeechSettings, useSpeechSynthesis } from '@/hooks/useSpeechSynthesis';
+import { DEFAULT_VOICE_CLIP_SETTINGS, VoiceClipSettings } from '@/hooks/useVoiceClips';
+
+const AUTOMATIC_VOICE = 'auto';
+const PREVIEW_TEXT = 'Hello! This is how the IARE campus assistant will sound when it reads answers aloud.';
+const KEEP_FOREVER = 'forever';
+const RETENTION_OPTIONS = [7, 30, 90];
 
 interface UserPreferences {
   theme: string;
   language: string;
   voice_enabled: boolean;
+  speech_recognition: SpeechRecognitionEngine;
+  tts: SpeechSettings;
+  voice_clips: VoiceClipSettings;
 }
 
 interface PreferencesTabProps {
@@ -22,20 +35,53 @@ export const PreferencesTab = ({ preferences, onUpdate }: PreferencesTabProps) =
   const { theme: currentTheme, setTheme } = useTheme();
   const [settings, setSettings] = useState<UserPreferences>({
     theme: preferences.theme || 'system',
-    language: preferences.language || 'en',
+    language: preferences.language || DEFAULT_LANGUAGE,
     voice_enabled: preferences.voice_enabled ?? true,
+    speech_recognition: preferences.speech_recognition || 'browser',
+    tts: { ...DEFAULT_SPEECH_SETTINGS, ...preferences.tts },
+    voice_clips: { ...DEFAULT_VOICE_CLIP_SETTINGS, ...preferences.voice_clips },
   });
   const [isSaving, setIsSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
 
   useEffect(() => {
+    // Field by field: jsonb hands keys back in its own order, so serialized objects never match
+    const savedTts = { ...DEFAULT_SPEECH_SETTINGS, ...preferences.tts };
+    const ttsChanged =
+      settings.tts.voice !== savedTts.voice ||
+      settings.tts.rate !== savedTts.rate ||
+      settings.tts.pitch !== savedTts.pitch ||
+      settings.tts.volume !== savedTts.volume;
+    const savedClips = { ...DEFAULT_VOICE_CLIP_SETTINGS, ...preferences.voice_clips };
+    const clipsChanged =
+      settings.voice_clips.record !== savedClips.record ||
+      settings.voice_clips.retention_days !== savedClips.retention_days;
     const changed = 
       settings.theme !== preferences.theme ||
       settings.language !== preferences.language ||
-      settings.voice_enabled !== preferences.voice_enabled;
+      settings.voice_enabled !== preferences.voice_enabled ||
+      settings.speech_recognition !== preferences.speech_recognition ||
+      ttsChanged ||
+      clipsChanged;
     setHasChanges(changed);
   }, [settings, preferences]);
 
+  const locale = getLanguage(settings.language).locale;
+  const { speak, cancel, isSpeaking, voices, isSupported: ttsSupported } = useSpeechSynthesis(locale, null, settings.tts);
+  const updateTts = (updates: Partial<SpeechSettings>) => {
+    setSettings({ ...settings, tts: { ...settings.tts, ...updates } });
+  };
+  const updateVoiceClips = (updates: Partial<VoiceClipSettings>) => {
+    setSettings({ ...settings, voice_clips: { ...settings.voice_clips, ...updates } });
+  };
+
+  // Voices for the assistant language first, then the rest
+  const languagePrefix = locale.split('-')[0];
+  const sortedVoices = [...voices].sort((a, b) =>
+    Number(!b.lang.startsWith(languagePrefix)) - Number(!a.lang.startsWith(languagePrefix)) ||
+    a.name.localeCompare(b.name)
+  );
+
   const handleThemeChange = (value: string) => {
     setSettings({ ...settings, theme: value });
     setTheme(value as 'light' | 'dark' | 'system');
@@ -51,14 +97,6 @@ export const PreferencesTab = ({ preferences, onUpdate }: PreferencesTabProps) =
     }
   };
 
-  const languages = [
-    { value: 'en', label: 'English' },
-    { value: 'es', label: 'Español' },
-    { value: 'fr', label: 'Français' },
-    { value: 'de', label: 'Deutsch' },
-    { value: 'hi', label: 'हिंदी' },
-  ];
-
   return (
     <div className="space-y-6">
       {/* Theme Selection */}
@@ -106,11 +144,11 @@ export const PreferencesTab = ({ preferences, onUpdate }: PreferencesTabProps) =
             <Globe className="w-5 h-5" />
             Language
           </CardTitle>
-          <CardDescription>Select your preferred language</CardDescription>
+          <CardDescription>Used for voice recognition, spoken replies and the assistant's answers</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="space-y-2">
-            <Label htmlFor="language">Display Language</Label>
+            <Label htmlFor="language">Assistant Language</Label>
             <Select
               value={settings.language}
               onValueChange={(value) => setSettings({ ...settings, language: value })}
@@ -119,8 +157,8 @@ export const PreferencesTab = ({ preferences, onUpdate }: PreferencesTabProps) =
                 <SelectValue placeholder="Select language" />
               </SelectTrigger>
               <SelectContent>
-                {languages.map((lang) => (
-                  <SelectItem key={lang.value} value={lang.value}>
+                {LANGUAGES.map((lang) => (
+                  <SelectItem key={lang.code} value={lang.code}>
                     {lang.label}
                   </SelectItem>
                 ))}
@@ -139,7 +177,7 @@ export const PreferencesTab = ({ preferences, onUpdate }: PreferencesTabProps) =
           </CardTitle>
           <CardDescription>Configure voice chat preferences</CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
           <div className="flex items-center justify-between p-4 rounded-lg border border-border">
             <div className="flex gap-4">
               <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
@@ -160,6 +198,121 @@ export const PreferencesTab = ({ preferences, onUpdate }: PreferencesTabProps) =
               onCheckedChange={(checked) => setSettings({ ...settings, voice_enabled: checked })}
             />
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="speech-recognition">Speech Recognition</Label>
+            <Select
+              value={settings.speech_recognition}
+              onValueChange={(value) => setSettings({ ...settings, speech_recognition: value as SpeechRecognitionEngine })}
+            >
+              <SelectTrigger id="speech-recognition" className="w-full md:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="browser">Browser (live transcript)</SelectItem>
+                <SelectItem value="server">Campus server (after you stop)</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              Browser recognition may send audio to your browser vendor. Server recognition is also
+              used automatically when your browser has no speech recognition.
+            </p>
+          </div>
+
+          <div className="space-y-4 p-4 rounded-lg border border-border">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="voice-clips" className="text-base font-medium cursor-pointer">
+                  Keep Recordings
+                </Label>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Save the audio of your voice questions so you can play them back next to the transcript
+                </p>
+              </div>
+              <Switch
+                id="voice-clips"
+                checked={settings.voice_clips.record}
+                onCheckedChange={(checked) => updateVoiceClips({ record: checked })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="voice-clips-retention">Delete Recordings After</Label>
+              <Select
+                value={settings.voice_clips.retention_days === null ? KEEP_FOREVER : String(settings.voice_clips.retention_days)}
+                onValueChange={(value) => updateVoiceClips({ retention_days: value === KEEP_FOREVER ? null : Number(value) })}
+              >
+                <SelectTrigger id="voice-clips-retention" className="w-full md:w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RETENTION_OPTIONS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                  ))}
+                  <SelectItem value={KEEP_FOREVER}>Never (until the chat is cleared)</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                Recordings are private to you and campus admins, and are deleted when you clear or delete the conversation.
+              </p>
+            </div>
+          </div>
+
+          {ttsSupported && (
+            <div className="space-y-4 p-4 rounded-lg border border-border">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="tts-voice" className="text-base font-medium">Reading Voice</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => isSpeaking ? cancel() : speak(PREVIEW_TEXT)}
+                >
+                  <Volume2 className="w-4 h-4 mr-2" />
+                  {isSpeaking ? 'Stop' : 'Preview'}
+                </Button>
+              </div>
+
+              <Select
+                value={settings.tts.voice ?? AUTOMATIC_VOICE}
+                onValueChange={(value) => updateTts({ voice: value === AUTOMATIC_VOICE ? null : value })}
+              >
+                <SelectTrigger id="tts-voice" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTOMATIC_VOICE}>Automatic (matches the answer language)</SelectItem>
+                  {sortedVoices.map((voice) => (
+                    <SelectItem key={voice.voiceURI} value={voice.voiceURI}>
+                      {voice.name} ({voice.lang})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                The chosen voice is used for answers in its own language; other languages use a matching voice.
+              </p>
+
+              {([
+                { key: 'rate', label: 'Speed', min: 0.5, max: 2, step: 0.1, format: (v: number) => `${v.toFixed(1)}x` },
+                { key: 'pitch', label: 'Pitch', min: 0, max: 2, step: 0.1, format: (v: number) => v.toFixed(1) },
+                { key: 'volume', label: 'Volume', min: 0, max: 1, step: 0.05, format: (v: number) => `${Math.round(v * 100)}%` },
+              ] as const).map(({ key, label, min, max, step, format }) => (
+                <div key={key} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>{label}</Label>
+                    <span className="text-sm text-muted-foreground">{format(settings.tts[key])}</span>
+                  </div>
+                  <Slider
+                    value={[settings.tts[key]]}
+                    onValueChange={([value]) => updateTts({ [key]: value })}
+                    min={min}
+                    max={max}
+                    step={step}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
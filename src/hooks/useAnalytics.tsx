@@ -11,6 +11,8 @@ interface ChatStats {
   weeklyChats: number;
   monthlyChats: number;
   avgResponseLength: number;
+  cachedChats: number;
+  cacheHitRate: number;
 }
 
 interface DailyUsage {
@@ -44,6 +46,8 @@ export const useAnalytics = (): AnalyticsData => {
     weeklyChats: 0,
     monthlyChats: 0,
     avgResponseLength: 0,
+    cachedChats: 0,
+    cacheHitRate: 0,
   });
   const [dailyUsage, setDailyUsage] = useState<DailyUsage[]>([]);
   const [recentActivity, setRecentActivity] = useState<AnalyticsData['recentActivity']>([]);
@@ -87,6 +91,7 @@ export const useAnalytics = (): AnalyticsData => {
         const monthlyChats = chats.filter(c => new Date(c.created_at) >= monthAgo).length;
         
         const avgResponseLength = chats.reduce((acc, c) => acc + (c.ai_response?.length || 0), 0) / chats.length;
+        const cachedChats = chats.filter(c => c.cached).length;
 
         setStats({
           totalChats: chats.length,
@@ -97,6 +102,8 @@ export const useAnalytics = (): AnalyticsData => {
           weeklyChats,
           monthlyChats,
           avgResponseLength: Math.round(avgResponseLength),
+          cachedChats,
+          cacheHitRate: Math.round((cachedChats / chats.length) * 100),
         });
 
         // Calculate daily usage for the last 7 days
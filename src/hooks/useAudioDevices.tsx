@@ -1,4 +1,5 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '@/hooks/useAuth';
 
 export interface AudioDevice {
   deviceId: string;
@@ -8,10 +9,34 @@ export interface AudioDevice {
   deviceType: 'built-in' | 'usb' | 'bluetooth' | 'unknown';
 }
 
+/** The microphone the user picked, remembered so it can be found again after a replug */
+export interface PreferredDevice {
+  deviceId: string;
+  label: string;
+  deviceType: AudioDevice['deviceType'];
+}
+
+/** The active microphone was switched without the user picking it */
+export interface InputDeviceChange {
+  /** 'fallback': the active microphone disappeared; 'restored': the preferred one came back */
+  reason: 'fallback' | 'restored';
+  device: AudioDevice;
+  /** Label of the microphone that was in use before the switch */
+  previousLabel: string;
+}
+
+interface AudioDevicesOptions {
+  onInputDeviceChange?: (change: InputDeviceChange) => void;
+}
+
 interface AudioDevicesHook {
   inputDevices: AudioDevice[];
   outputDevices: AudioDevice[];
+  /** Microphone in use: the preferred one, or a fallback while it is disconnected */
   selectedInputDevice: string | null;
+  preferredInputDevice: PreferredDevice | null;
+  /** The preferred microphone is disconnected and another one is in use */
+  isUsingFallbackInput: boolean;
   selectedOutputDevice: string | null;
   setSelectedInputDevice: (deviceId: string) => void;
   setSelectedOutputDevice: (deviceId: string) => void;
@@ -22,6 +47,47 @@ interface AudioDevicesHook {
   requestPermission: () => Promise<boolean>;
 }
 
+/** Fired when a device preference changes, so every hook instance picks it up */
+const DEVICE_PREFERENCE_EVENT = 'audio-device-preference';
+
+const INPUT_STORAGE_KEY = 'preferredInputDevice';
+const OUTPUT_STORAGE_KEY = 'preferredOutputDevice';
+
+/** Microphone types tried, after the preferred one's own type, when it is unplugged */
+const INPUT_FALLBACK_ORDER: AudioDevice['deviceType'][] = ['usb', 'bluetooth', 'built-in', 'unknown'];
+
+/** Preferences are kept per user; the unscoped key holds what was saved before sign-in */
+const storageKey = (base: string, userId: string | undefined) => userId ? `${base}:${userId}` : base;
+
+const readPreference = (base: string, userId: string | undefined): PreferredDevice | null => {
+  const stored = localStorage.getItem(storageKey(base, userId)) ?? localStorage.getItem(base);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as PreferredDevice;
+  } catch {
+    // Older versions stored the bare device id
+    return { deviceId: stored, label: '', deviceType: 'unknown' };
+  }
+};
+
+/** Device ids change when site data is cleared, so fall back to matching the label */
+const findPreferred = (devices: AudioDevice[], preferred: PreferredDevice | null) => {
+  if (!preferred) return undefined;
+  return devices.find(d => d.deviceId === preferred.deviceId) ??
+    (preferred.label ? devices.find(d => d.label === preferred.label) : undefined);
+};
+
+const pickFallbackInput = (inputs: AudioDevice[], preferredType: AudioDevice['deviceType'] | undefined) => {
+  const order = preferredType
+    ? [preferredType, ...INPUT_FALLBACK_ORDER.filter(t => t !== preferredType)]
+    : INPUT_FALLBACK_ORDER;
+  for (const type of order) {
+    const device = inputs.find(d => d.deviceType === type);
+    if (device) return device;
+  }
+  return inputs[0];
+};
+
 /**
  * Detect device type based on label and device info
  * Bluetooth devices typically have "Bluetooth" in their name
@@ -54,15 +120,46 @@ const detectDeviceType = (label: string): AudioDevice['deviceType'] => {
   return 'unknown';
 };
 
-export const useAudioDevices = (): AudioDevicesHook => {
+/**
+ * AUDIO DEVICES HOOK
+ * ==================
+ * Lists microphones and speakers and remembers the user's choice.
+ *
+ * HOT-PLUG HANDLING:
+ * - Devices are re-enumerated on every devicechange event
+ * - If the active microphone disappears, the next best one is used: the same
+ *   type as the preferred microphone first, then USB, Bluetooth, built-in
+ * - When the preferred microphone is plugged back in it is used again
+ * - onInputDeviceChange reports both switches so the page can tell the user
+ */
+export const useAudioDevices = ({ onInputDeviceChange }: AudioDevicesOptions = {}): AudioDevicesHook => {
+  const { user } = useAuth();
+  const userId = user?.id;
   const [inputDevices, setInputDevices] = useState<AudioDevice[]>([]);
   const [outputDevices, setOutputDevices] = useState<AudioDevice[]>([]);
   const [selectedInputDevice, setSelectedInputDeviceState] = useState<string | null>(null);
   const [selectedOutputDevice, setSelectedOutputDeviceState] = useState<string | null>(null);
+  const [preferredInputDevice, setPreferredInputDevice] = useState<PreferredDevice | null>(null);
+  const [isUsingFallbackInput, setIsUsingFallbackInput] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [hasPermission, setHasPermission] = useState(false);
 
+  // Read inside refreshDevices, which runs from event listeners
+  const activeInputRef = useRef<AudioDevice | null>(null);
+  const selectedOutputRef = useRef<string | null>(null);
+  const isUsingFallbackRef = useRef(false);
+  const inputDevicesRef = useRef<AudioDevice[]>([]);
+  const onInputDeviceChangeRef = useRef(onInputDeviceChange);
+  onInputDeviceChangeRef.current = onInputDeviceChange;
+
+  const selectInput = useCallback((device: AudioDevice | null, deviceId: string | null, isFallback: boolean) => {
+    activeInputRef.current = device;
+    isUsingFallbackRef.current = isFallback;
+    setSelectedInputDeviceState(deviceId);
+    setIsUsingFallbackInput(isFallback);
+  }, []);
+
   const processDevices = useCallback((devices: MediaDeviceInfo[]): { inputs: AudioDevice[], outputs: AudioDevice[] } => {
     const inputs: AudioDevice[] = [];
     const outputs: AudioDevice[] = [];
@@ -107,21 +204,56 @@ export const useAudioDevices = (): AudioDevicesHook => {
       
       setInputDevices(inputs);
       setOutputDevices(outputs);
-      
-      // Set default selections if not already set
-      if (!selectedInputDevice && inputs.length > 0) {
-        const defaultInput = inputs.find(d => d.isDefault) || inputs[0];
-        setSelectedInputDeviceState(defaultInput.deviceId);
-      }
-      
-      if (!selectedOutputDevice && outputs.length > 0) {
-        const defaultOutput = outputs.find(d => d.isDefault) || outputs[0];
-        setSelectedOutputDeviceState(defaultOutput.deviceId);
-      }
-      
+      inputDevicesRef.current = inputs;
+
       // Check if we have device labels (indicates permission was granted)
       const hasLabels = devices.some(d => d.label && d.label.length > 0);
       setHasPermission(hasLabels);
+
+      const preferred = readPreference(INPUT_STORAGE_KEY, userId);
+      setPreferredInputDevice(preferred);
+      const previous = activeInputRef.current;
+
+      if (!hasLabels) {
+        // Ids are hidden until permission is granted; the stored one still works
+        if (!previous) {
+          const fallback = inputs.find(d => d.isDefault) || inputs[0];
+          selectInput(null, preferred?.deviceId ?? fallback?.deviceId ?? null, false);
+        }
+      } else if (inputs.length > 0) {
+        const preferredDevice = findPreferred(inputs, preferred);
+        const stillConnected = previous && inputs.find(d => d.deviceId === previous.deviceId);
+
+        if (preferredDevice) {
+          if (previous && isUsingFallbackRef.current) {
+            onInputDeviceChangeRef.current?.({ reason: 'restored', device: preferredDevice, previousLabel: previous.label });
+          }
+          selectInput(preferredDevice, preferredDevice.deviceId, false);
+        } else if (stillConnected) {
+          activeInputRef.current = stillConnected;
+        } else {
+          const fallback = pickFallbackInput(inputs, preferred?.deviceType);
+          if (previous) {
+            onInputDeviceChangeRef.current?.({ reason: 'fallback', device: fallback, previousLabel: previous.label });
+          }
+          // Without a preference the first pick is simply the default, not a fallback
+          selectInput(fallback, fallback.deviceId, !!preferred);
+        }
+      }
+
+      // Speakers fall back to the default without switching back
+      const storedOutput = readPreference(OUTPUT_STORAGE_KEY, userId);
+      const output = findPreferred(outputs, storedOutput) ??
+        outputs.find(d => d.deviceId === selectedOutputRef.current) ??
+        outputs.find(d => d.isDefault) ??
+        outputs[0];
+      if (output) {
+        selectedOutputRef.current = output.deviceId;
+        setSelectedOutputDeviceState(output.deviceId);
+      } else if (!hasLabels && storedOutput) {
+        selectedOutputRef.current = storedOutput.deviceId;
+        setSelectedOutputDeviceState(storedOutput.deviceId);
+      }
       
     } catch (err) {
       console.error('Error enumerating devices:', err);
@@ -129,7 +261,7 @@ export const useAudioDevices = (): AudioDevicesHook => {
     } finally {
       setIsLoading(false);
     }
-  }, [processDevices, selectedInputDevice, selectedOutputDevice]);
+  }, [processDevices, selectInput, userId]);
 
   const requestPermission = useCallback(async (): Promise<boolean> => {
     try {
@@ -161,29 +293,37 @@ export const useAudioDevices = (): AudioDevicesHook => {
     }
   }, [refreshDevices]);
 
+  const storePreference = useCallback((base: string, device: PreferredDevice) => {
+    localStorage.setItem(storageKey(base, userId), JSON.stringify(device));
+    window.dispatchEvent(new Event(DEVICE_PREFERENCE_EVENT));
+  }, [userId]);
+
   const setSelectedInputDevice = useCallback((deviceId: string) => {
-    setSelectedInputDeviceState(deviceId);
-    // Store preference in localStorage
-    localStorage.setItem('preferredInputDevice', deviceId);
-  }, []);
+    const device = inputDevicesRef.current.find(d => d.deviceId === deviceId);
+    selectInput(device ?? null, deviceId, false);
+    storePreference(INPUT_STORAGE_KEY, {
+      deviceId,
+      label: device?.label ?? '',
+      deviceType: device?.deviceType ?? 'unknown',
+    });
+  }, [selectInput, storePreference]);
 
   const setSelectedOutputDevice = useCallback((deviceId: string) => {
+    selectedOutputRef.current = deviceId;
     setSelectedOutputDeviceState(deviceId);
-    // Store preference in localStorage
-    localStorage.setItem('preferredOutputDevice', deviceId);
-  }, []);
+    storePreference(OUTPUT_STORAGE_KEY, { deviceId, label: '', deviceType: 'unknown' });
+  }, [storePreference]);
 
-  // Initial device enumeration
+  // Initial device enumeration, and again for the signed-in user's preferences
   useEffect(() => {
-    // Load stored preferences
-    const storedInput = localStorage.getItem('preferredInputDevice');
-    const storedOutput = localStorage.getItem('preferredOutputDevice');
-    
-    if (storedInput) setSelectedInputDeviceState(storedInput);
-    if (storedOutput) setSelectedOutputDeviceState(storedOutput);
-    
     refreshDevices();
-  }, []);
+  }, [refreshDevices]);
+
+  // Follow selections made through other instances (e.g. AudioDeviceSelector)
+  useEffect(() => {
+    window.addEventListener(DEVICE_PREFERENCE_EVENT, refreshDevices);
+    return () => window.removeEventListener(DEVICE_PREFERENCE_EVENT, refreshDevices);
+  }, [refreshDevices]);
 
   // Listen for device changes (connect/disconnect)
   useEffect(() => {
@@ -204,6 +344,8 @@ export const useAudioDevices = (): AudioDevicesHook => {
     outputDevices,
     selectedInputDevice,
     selectedOutputDevice,
+    preferredInputDevice,
+    isUsingFallbackInput,
     setSelectedInputDevice,
     setSelectedOutputDevice,
     refreshDevices,
@@ -0,0 +1,116 @@
+import { useEffect, useRef } from 'react';
+import { createStreamAnalyser, readLevel } from '@/hooks/useVoiceActivity';
+
+/** Playback time used to measure how loud the reply's echo is at the microphone */
+const CALIBRATION_MS = 400;
+/** How far above the echo the user must speak to interrupt */
+const ECHO_MARGIN = 0.15;
+/** Never trigger below this level, however quiet the echo */
+const MIN_THRESHOLD = 0.35;
+/** Sustained speech required, so a cough or a loud syllable of the reply does not interrupt */
+const MIN_BARGE_IN_MS = 200;
+/** Per-frame decay of the echo estimate, so one loud moment does not raise the bar for the whole reply */
+const ECHO_DECAY = 0.995;
+
+interface BargeInOptions {
+  /** Barge-in setting, and any other condition that must hold (e.g. mic permission) */
+  enabled: boolean;
+  /** A reply is being spoken */
+  isSpeaking: boolean;
+  deviceId?: string | null;
+  /** The user started talking over the reply */
+  onBargeIn: () => void;
+}
+
+/**
+ * BARGE-IN HOOK
+ * =============
+ * Keeps the microphone armed while a reply is spoken and calls onBargeIn
+ * as soon as the user talks over it.
+ *
+ * Only the level is metered - nothing is transcribed - so the reply cannot
+ * end up in the next question. The reply's own echo is measured during the
+ * first moments of playback and the user must speak clearly above it.
+ * Loudspeakers placed near the microphone can still trigger it, which is
+ * why it can be switched off in the speech detection settings.
+ */
+export const useBargeIn = ({ enabled, isSpeaking, deviceId, onBargeIn }: BargeInOptions) => {
+  const onBargeInRef = useRef(onBargeIn);
+  onBargeInRef.current = onBargeIn;
+
+  useEffect(() => {
+    if (!enabled || !isSpeaking) return;
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let meter: ReturnType<typeof createStreamAnalyser> = null;
+    let animationFrame = 0;
+
+    const arm = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: {
+            ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+            echoCancellation: true,
+            noiseSuppression: true,
+          },
+        });
+      } catch (err) {
+        console.error('Barge-in microphone unavailable:', err);
+        return;
+      }
+
+      if (cancelled) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      meter = createStreamAnalyser(stream);
+      if (!meter) return;
+
+      const { analyser } = meter;
+      const samples = new Float32Array(analyser.fftSize);
+      const startedAt = performance.now();
+      let lastFrameAt = startedAt;
+      let echoLevel = 0;
+      let speechMs = 0;
+
+      const tick = (now: number) => {
+        animationFrame = requestAnimationFrame(tick);
+        const elapsed = now - lastFrameAt;
+        lastFrameAt = now;
+
+        const level = readLevel(analyser, samples);
+
+        if (now - startedAt < CALIBRATION_MS) {
+          echoLevel = Math.max(echoLevel, level);
+          return;
+        }
+
+        const threshold = Math.min(0.95, Math.max(MIN_THRESHOLD, echoLevel + ECHO_MARGIN));
+        if (level >= threshold) {
+          speechMs += elapsed;
+          if (speechMs >= MIN_BARGE_IN_MS) {
+            cancelAnimationFrame(animationFrame);
+            onBargeInRef.current();
+          }
+        } else {
+          speechMs = 0;
+          // Only learn from frames that are not the user talking
+          echoLevel = Math.max(echoLevel * ECHO_DECAY, level);
+        }
+      };
+
+      animationFrame = requestAnimationFrame(tick);
+    };
+
+    arm();
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(animationFrame);
+      meter?.close();
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [enabled, isSpeaking, deviceId]);
+};
@@ -0,0 +1,42 @@
+import { useState, useCallback } from 'react';
+import { useProfile } from '@/hooks/useProfile';
+import { Conversation } from '@/hooks/useConversations';
+import { getLanguage } from '@/lib/languages';
+
+/**
+ * CHAT LANGUAGE HOOK
+ * ==================
+ * Resolves the language a chat thread runs in: the thread's own override,
+ * otherwise the profile preference, otherwise English. It drives speech
+ * recognition, spoken replies and the language chat-grok answers in.
+ *
+ * A new thread has no row yet, so its override is held until chat-grok
+ * creates the conversation and then saved with adoptConversation.
+ */
+export const useChatLanguage = (
+  activeConversation: Conversation | undefined,
+  setConversationLanguage: (id: string, language: string | null) => Promise<void>
+) => {
+  const { profile } = useProfile();
+  const [pendingOverride, setPendingOverride] = useState<string | null>(null);
+
+  const override = activeConversation ? activeConversation.language : pendingOverride;
+  const profileLanguage = getLanguage(profile?.preferences.language);
+  const language = getLanguage(override ?? profileLanguage.code);
+
+  const setOverride = useCallback((code: string | null) => {
+    if (activeConversation) {
+      setConversationLanguage(activeConversation.id, code);
+    } else {
+      setPendingOverride(code);
+    }
+  }, [activeConversation, setConversationLanguage]);
+
+  const adoptConversation = useCallback(async (id: string) => {
+    if (!pendingOverride) return;
+    await setConversationLanguage(id, pendingOverride);
+    setPendingOverride(null);
+  }, [pendingOverride, setConversationLanguage]);
+
+  return { language, override, profileLanguage, setOverride, adoptConversation };
+};
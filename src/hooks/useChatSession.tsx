@@ -0,0 +1,472 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { ConversationMode, useConversations } from '@/hooks/useConversations';
+import { useChatLanguage } from '@/hooks/useChatLanguage';
+import { useRateLimit } from '@/hooks/useRateLimit';
+import { useVoiceClips } from '@/hooks/useVoiceClips';
+import { readChatStream } from '@/lib/chatStream';
+import { CANCELLED_ERROR, ChatError, toChatError } from '@/lib/chatErrors';
+
+export interface ChatSessionMessage {
+  /** `${chatId}-user` / `${chatId}-assistant` once stored, a temporary id until then */
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  inputType: 'text' | 'voice';
+  timestamp: string;
+  /** chat_history row of the turn; null until chat-grok has stored it */
+  chatId: string | null;
+  /** Storage paths of a voice question's recordings */
+  audioPaths?: string[];
+  /** Set on a question that got no answer */
+  error?: ChatError;
+}
+
+export type SendResult =
+  | { ok: true; chatId: string | null; conversationId: string | null; response: string; assistantMessageId: string }
+  | { ok: false; error: ChatError };
+
+interface ChatSessionOptions {
+  /** Keep no thread list and save no language override, for one-visitor sessions (kiosk) */
+  ephemeral?: boolean;
+  /** Called with the chat_history ids on screen after history is (re)loaded */
+  onHistoryLoaded?: (chatIds: string[]) => void;
+}
+
+/** Questions are truncated to this length; chat-grok applies the same cap */
+const MAX_MESSAGE_LENGTH = 1000;
+/** Turns loaded per page of history */
+const PAGE_SIZE = 25;
+/** Messages sent along as context with each question */
+const HISTORY_CONTEXT = 10;
+const EMPTY_RESPONSE = 'I apologize, but I was unable to generate a response. Please try again.';
+
+const chatIdsOf = (messages: ChatSessionMessage[]) =>
+  messages.filter(m => m.role === 'user' && m.chatId).map(m => m.chatId as string);
+
+/**
+ * CHAT SESSION HOOK
+ * =================
+ * The chat engine shared by the text, voice, mixed and kiosk chats: loads
+ * a thread's history a page at a time, sends questions to chat-grok and
+ * streams the reply, and retries, cancels, clears and exports.
+ *
+ * Failures are classified once (see src/lib/chatErrors.ts). A rate limit
+ * removes the question and starts the countdown; any other failure stays
+ * on the question so it can be retried, and is shown as a toast unless
+ * the user cancelled it.
+ */
+export const useChatSession = (mode: ConversationMode, { ephemeral = false, onHistoryLoaded }: ChatSessionOptions = {}) => {
+  const [messages, setMessages] = useState<ChatSessionMessage[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const {
+    conversations,
+    activeConversationId,
+    setActiveConversationId,
+    isLoading: isLoadingConversations,
+    renameConversation,
+    archiveConversation,
+    deleteConversation,
+    setConversationLanguage,
+    refresh: refreshConversations
+  } = useConversations(mode, !ephemeral);
+  const {
+    language,
+    override: languageOverride,
+    profileLanguage,
+    setOverride: setLanguageOverride,
+    adoptConversation: adoptConversationLanguage
+  } = useChatLanguage(
+    conversations.find((c) => c.id === activeConversationId),
+    setConversationLanguage
+  );
+  const { rateLimit, secondsLeft, startCooldown } = useRateLimit();
+  const { deleteConversationClips } = useVoiceClips();
+
+  const loadedConversationRef = useRef<string | null | undefined>(undefined);
+  // created_at of the oldest loaded turn, where the next page of history ends
+  const oldestRef = useRef<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Bumped on reset so replies to a thread that is gone are dropped
+  const generationRef = useRef(0);
+  const onHistoryLoadedRef = useRef(onHistoryLoaded);
+  onHistoryLoadedRef.current = onHistoryLoaded;
+  // Latest messages, for callbacks that outlive the render they were created in
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  const fetchPage = useCallback(async (conversationId: string, before: string | null) => {
+    let query = supabase
+      .from('chat_history')
+      .select('*, voice_clips(path, position)')
+      .eq('conversation_id', conversationId);
+    if (before) query = query.lt('created_at', before);
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(PAGE_SIZE);
+    if (error) throw error;
+
+    const rows = [...(data || [])].reverse();
+    const page = rows.flatMap((chat): ChatSessionMessage[] => {
+      const inputType = chat.input_type === 'voice' ? 'voice' : 'text';
+      const timestamp = new Date(chat.created_at).toLocaleTimeString();
+      return [
+        {
+          id: `${chat.id}-user`,
+          role: 'user',
+          content: chat.user_query,
+          inputType,
+          timestamp,
+          chatId: chat.id,
+          audioPaths: [...chat.voice_clips]
+            .sort((a, b) => a.position - b.position)
+            .map(clip => clip.path)
+        },
+        {
+          id: `${chat.id}-assistant`,
+          role: 'assistant',
+          content: chat.ai_response,
+          inputType,
+          timestamp,
+          chatId: chat.id
+        }
+      ];
+    });
+
+    return { page, oldest: rows[0]?.created_at ?? null, hasMore: rows.length === PAGE_SIZE };
+  }, []);
+
+  // Load the latest page of the active conversation
+  useEffect(() => {
+    const loadChatHistory = async () => {
+      if (!user || isLoadingConversations) return;
+
+      // Messages for this thread are already on screen (e.g. it was just created by sending)
+      if (loadedConversationRef.current === activeConversationId) return;
+      loadedConversationRef.current = activeConversationId;
+      oldestRef.current = null;
+      setHasMore(false);
+
+      if (!activeConversationId) {
+        setMessages([]);
+        setIsLoadingHistory(false);
+        onHistoryLoadedRef.current?.([]);
+        return;
+      }
+
+      setIsLoadingHistory(true);
+
+      try {
+        const { page, oldest, hasMore: more } = await fetchPage(activeConversationId, null);
+        // Another thread was opened while this one loaded
+        if (loadedConversationRef.current !== activeConversationId) return;
+
+        oldestRef.current = oldest;
+        setHasMore(more);
+        setMessages(page);
+        onHistoryLoadedRef.current?.(chatIdsOf(page));
+      } catch (error) {
+        console.error('Error loading chat history:', error);
+      } finally {
+        setIsLoadingHistory(false);
+      }
+    };
+
+    loadChatHistory();
+  }, [user, activeConversationId, isLoadingConversations, fetchPage]);
+
+  // A reply still streaming when the page closes is not needed any more
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  /** Prepend the next older page of the active conversation */
+  const loadMore = async () => {
+    const conversationId = activeConversationId;
+    if (!conversationId || !hasMore || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const { page, oldest, hasMore: more } = await fetchPage(conversationId, oldestRef.current);
+      if (loadedConversationRef.current !== conversationId) return;
+
+      oldestRef.current = oldest ?? oldestRef.current;
+      setHasMore(more);
+      setMessages(prev => [...page, ...prev]);
+      onHistoryLoadedRef.current?.(chatIdsOf([...page, ...messagesRef.current]));
+    } catch (error) {
+      console.error('Error loading earlier messages:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load earlier messages.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  /**
+   * Ask chat-grok and stream the reply into the thread. `previous` is the
+   * thread the question is added to, which is also sent as context.
+   */
+  const ask = async (
+    question: string,
+    inputType: 'text' | 'voice',
+    previous: ChatSessionMessage[]
+  ): Promise<SendResult> => {
+    const generation = generationRef.current;
+    const isCurrent = () => generation === generationRef.current;
+    const conversationId = activeConversationId;
+
+    const userMessage: ChatSessionMessage = {
+      id: `temp-${Date.now()}`,
+      role: 'user',
+      content: question,
+      inputType,
+      timestamp: new Date().toLocaleTimeString(),
+      chatId: null
+    };
+    const assistantId = `assistant-${Date.now()}`;
+    const updateAssistant = (content: string) =>
+      setMessages(prev => prev.map(m => m.id === assistantId ? { ...m, content } : m));
+
+    setMessages([...previous, userMessage]);
+    setIsSending(true);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const { data, error } = await supabase.functions.invoke('chat-grok', {
+        body: {
+          message: question,
+          // Failed questions were never answered, so they are left out of the context
+          conversationHistory: previous
+            .filter(m => !m.error)
+            .slice(-HISTORY_CONTEXT)
+            .map(m => ({ role: m.role, content: m.content })),
+          conversationId,
+          language: language.code,
+          inputType,
+          mode,
+          stream: true
+        },
+        signal: controller.signal
+      });
+
+      if (error) throw error;
+      if (!isCurrent()) return { ok: false, error: CANCELLED_ERROR };
+
+      // Render partial text into the assistant bubble as it streams in
+      setMessages(prev => [...prev, {
+        id: assistantId,
+        role: 'assistant',
+        content: '',
+        inputType,
+        timestamp: new Date().toLocaleTimeString(),
+        chatId: null
+      }]);
+
+      let result: { id?: string | null; conversationId?: string | null; response: string };
+      if (data instanceof Response) {
+        setStreamingMessageId(assistantId);
+        result = await readChatStream(data, (text) => {
+          if (isCurrent()) updateAssistant(text);
+        });
+      } else {
+        result = data;
+      }
+      if (!isCurrent()) return { ok: false, error: CANCELLED_ERROR };
+
+      const response = result.response || EMPTY_RESPONSE;
+      const chatId = result.id ?? null;
+      const assistantMessageId = chatId ? `${chatId}-assistant` : assistantId;
+
+      // The turn is stored server-side; adopt its row id so messages match reloaded history
+      setMessages(prev => prev.map(m =>
+        m.id === userMessage.id ? { ...m, id: chatId ? `${chatId}-user` : m.id, chatId } :
+        m.id === assistantId ? { ...m, id: assistantMessageId, content: response, chatId } : m
+      ));
+
+      // A new thread was started by this message - switch to it without reloading
+      const turnConversationId = result.conversationId ?? conversationId;
+      if (turnConversationId && turnConversationId !== conversationId) {
+        loadedConversationRef.current = turnConversationId;
+        setActiveConversationId(turnConversationId);
+        if (!ephemeral) await adoptConversationLanguage(turnConversationId);
+      }
+      if (!ephemeral) refreshConversations();
+
+      return { ok: true, chatId, conversationId: turnConversationId, response, assistantMessageId };
+    } catch (error) {
+      const chatError = controller.signal.aborted ? CANCELLED_ERROR : await toChatError(error);
+      if (chatError.kind !== 'cancelled') console.error('Error sending message:', error);
+      if (!isCurrent()) return { ok: false, error: chatError };
+
+      // Drop any partially streamed reply - it was never persisted
+      setMessages(prev => prev
+        .filter(m => m.id !== assistantId && !(chatError.kind === 'rate_limited' && m.id === userMessage.id))
+        .map(m => m.id === userMessage.id ? { ...m, error: chatError } : m));
+
+      if (chatError.kind === 'rate_limited' && chatError.rateLimit) {
+        startCooldown(chatError.rateLimit);
+      } else if (chatError.kind !== 'cancelled') {
+        toast({
+          title: 'Error',
+          description: chatError.message,
+          variant: 'destructive'
+        });
+      }
+      return { ok: false, error: chatError };
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      if (isCurrent()) {
+        setIsSending(false);
+        setStreamingMessageId(null);
+      }
+    }
+  };
+
+  /**
+   * Send a question. Resolves to null when nothing was sent: an empty
+   * question, a reply still loading, or a rate limit counting down.
+   */
+  const send = async (text: string, { inputType }: { inputType: 'text' | 'voice' }) => {
+    const question = text.trim().slice(0, MAX_MESSAGE_LENGTH);
+    if (!question || isSending || rateLimit) return null;
+    return ask(question, inputType, messages);
+  };
+
+  /** Ask a failed question again; it moves to the end of the thread */
+  const retry = async (messageId: string) => {
+    const failed = messages.find(m => m.id === messageId && m.error);
+    if (!failed || isSending || rateLimit) return null;
+    return ask(failed.content, failed.inputType, messages.filter(m => m.id !== messageId));
+  };
+
+  /** Stop waiting for the reply; the question stays, marked as stopped */
+  const cancel = () => {
+    abortRef.current?.abort();
+  };
+
+  /** Drop the thread from the screen and start a new one, e.g. for the next kiosk visitor */
+  const reset = () => {
+    generationRef.current++;
+    abortRef.current?.abort();
+    abortRef.current = null;
+    loadedConversationRef.current = null;
+    oldestRef.current = null;
+    setActiveConversationId(null);
+    setMessages([]);
+    setHasMore(false);
+    setIsSending(false);
+    setStreamingMessageId(null);
+  };
+
+  /** Delete the active conversation's messages and recordings */
+  const clear = async () => {
+    if (!user || !activeConversationId) return false;
+
+    try {
+      await deleteConversationClips(activeConversationId);
+
+      const { error } = await supabase
+        .from('chat_history')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('conversation_id', activeConversationId);
+
+      if (error) throw error;
+
+      setMessages([]);
+      setHasMore(false);
+      oldestRef.current = null;
+      toast({
+        title: 'Chat Cleared',
+        description: 'This conversation has been cleared.'
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to clear chat history.',
+        variant: 'destructive'
+      });
+      return false;
+    }
+  };
+
+  /** Download the messages on screen as a text file */
+  const exportHistory = () => {
+    if (messages.length === 0) return;
+
+    const content = messages
+      .map(m => `[${m.timestamp}] ${m.role.toUpperCase()}${m.inputType === 'voice' && m.role === 'user' ? ' (voice)' : ''}: ${m.content}`)
+      .join('\n\n');
+
+    const blob = new Blob([content], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `iare-chat-history-${new Date().toISOString().split('T')[0]}.txt`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    toast({
+      description: 'Chat history exported successfully.'
+    });
+  };
+
+  /** Change a message in place, e.g. to attach recordings once uploaded */
+  const updateMessage = useCallback((id: string, patch: Partial<ChatSessionMessage>) => {
+    setMessages(prev => prev.map(m => m.id === id ? { ...m, ...patch } : m));
+  }, []);
+
+  // Switching threads mid-reply would drop the pending answer
+  const selectConversation = (id: string | null) => {
+    if (isSending) return false;
+    setActiveConversationId(id);
+    return true;
+  };
+
+  return {
+    messages,
+    isLoadingHistory,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    isSending,
+    streamingMessageId,
+    send,
+    retry,
+    cancel,
+    reset,
+    clear,
+    exportHistory,
+    updateMessage,
+    rateLimit,
+    secondsLeft,
+    conversations,
+    activeConversationId,
+    isLoadingConversations,
+    selectConversation,
+    renameConversation,
+    archiveConversation,
+    deleteConversation,
+    language,
+    languageOverride,
+    profileLanguage,
+    setLanguageOverride
+  };
+};
@@ -0,0 +1,192 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useVoiceClips } from '@/hooks/useVoiceClips';
+
+/** Which chat page a thread belongs to; 'mixed' threads take typed and spoken questions */
+export type ConversationMode = 'text' | 'voice' | 'mixed';
+
+export interface Conversation {
+  id: string;
+  title: string | null;
+  mode: ConversationMode;
+  archived: boolean;
+  /** Reply language override; null follows the profile preference */
+  language: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ConversationsHook {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  setActiveConversationId: (id: string | null) => void;
+  isLoading: boolean;
+  renameConversation: (id: string, title: string) => Promise<void>;
+  archiveConversation: (id: string, archived: boolean) => Promise<void>;
+  deleteConversation: (id: string) => Promise<void>;
+  setConversationLanguage: (id: string, language: string | null) => Promise<void>;
+  refresh: () => Promise<Conversation[]>;
+}
+
+/**
+ * CONVERSATIONS HOOK
+ * ==================
+ * Manages the chat threads for one chat mode (text, voice or mixed).
+ * The most recently updated unarchived thread is opened on load.
+ * A null active id is a new, unsaved thread: chat-grok creates the
+ * conversation with its first message and titles it from the question.
+ *
+ * @param enabled false loads no threads, for surfaces that always start a new one (kiosk)
+ */
+export const useConversations = (mode: ConversationMode, enabled = true): ConversationsHook => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { deleteConversationClips } = useVoiceClips();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async (): Promise<Conversation[]> => {
+    if (!user || !enabled) {
+      setIsLoading(false);
+      return [];
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('conversations')
+        .select('*')
+        .eq('mode', mode)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+
+      const loaded = (data || []).map((row) => ({
+        id: row.id,
+        title: row.title,
+        mode: row.mode as ConversationMode,
+        archived: row.archived,
+        language: row.language,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+      }));
+      setConversations(loaded);
+      return loaded;
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, mode, enabled]);
+
+  // Load threads and open the latest active one
+  useEffect(() => {
+    refresh().then((loaded) => {
+      const latest = loaded.find((c) => !c.archived);
+      setActiveConversationId((active) => active ?? latest?.id ?? null);
+    });
+  }, [refresh]);
+
+  const renameConversation = useCallback(async (id: string, title: string) => {
+    const trimmed = title.trim().slice(0, 100);
+    if (!trimmed) return;
+
+    const { error } = await supabase
+      .from('conversations')
+      .update({ title: trimmed })
+      .eq('id', id);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to rename conversation.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setConversations((prev) => prev.map((c) => c.id === id ? { ...c, title: trimmed } : c));
+  }, [toast]);
+
+  const archiveConversation = useCallback(async (id: string, archived: boolean) => {
+    const { error } = await supabase
+      .from('conversations')
+      .update({ archived })
+      .eq('id', id);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: archived ? 'Failed to archive conversation.' : 'Failed to restore conversation.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setConversations((prev) => prev.map((c) => c.id === id ? { ...c, archived } : c));
+    if (archived && activeConversationId === id) {
+      setActiveConversationId(null);
+    }
+  }, [activeConversationId, toast]);
+
+  const deleteConversation = useCallback(async (id: string) => {
+    // Messages are removed with the conversation (ON DELETE CASCADE); recordings are not
+    await deleteConversationClips(id);
+
+    const { error } = await supabase
+      .from('conversations')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete conversation.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setConversations((prev) => prev.filter((c) => c.id !== id));
+    if (activeConversationId === id) {
+      setActiveConversationId(null);
+    }
+    toast({
+      title: 'Conversation Deleted',
+      description: 'The conversation and its messages have been removed.'
+    });
+  }, [activeConversationId, toast, deleteConversationClips]);
+
+  const setConversationLanguage = useCallback(async (id: string, language: string | null) => {
+    const { error } = await supabase
+      .from('conversations')
+      .update({ language })
+      .eq('id', id);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to change the conversation language.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setConversations((prev) => prev.map((c) => c.id === id ? { ...c, language } : c));
+  }, [toast]);
+
+  return {
+    conversations,
+    activeConversationId,
+    setActiveConversationId,
+    isLoading,
+    renameConversation,
+    archiveConversation,
+    deleteConversation,
+    setConversationLanguage,
+    refresh,
+  };
+};
@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  GraduationCap,
+  BookOpen,
+  Building,
+  DollarSign,
+  Users,
+  Clock,
+  Mail,
+  HelpCircle,
+  LucideIcon,
+} from 'lucide-react';
+
+/** Icons an admin can pick for a suggestion, stored by key in faq_suggestions.icon */
+export const FAQ_ICONS: Record<string, LucideIcon> = {
+  'graduation-cap': GraduationCap,
+  'book-open': BookOpen,
+  'building': Building,
+  'dollar-sign': DollarSign,
+  'users': Users,
+  'clock': Clock,
+  'mail': Mail,
+  'help-circle': HelpCircle,
+};
+
+export interface FaqSuggestion {
+  id: string;
+  query: string;
+  category: string;
+  icon: string;
+  sortOrder: number;
+  enabled: boolean;
+}
+
+/** Used until the table loads, or if it cannot be read */
+const FALLBACK_SUGGESTIONS: FaqSuggestion[] = [
+  { query: 'Admission requirements', icon: 'graduation-cap', category: 'Admissions' },
+  { query: 'Fee structure', icon: 'dollar-sign', category: 'Admissions' },
+  { query: 'Available courses', icon: 'book-open', category: 'Courses' },
+  { query: 'Placement statistics', icon: 'users', category: 'Placements' },
+  { query: 'Hostel facilities', icon: 'building', category: 'Campus' },
+  { query: 'Contact information', icon: 'mail', category: 'Contact' },
+].map((faq, index) => ({ ...faq, id: `fallback-${index}`, sortOrder: index, enabled: true }));
+
+export const faqIcon = (icon: string): LucideIcon => FAQ_ICONS[icon] || HelpCircle;
+
+/**
+ * FAQ SUGGESTIONS HOOK
+ * ====================
+ * Loads the "Common Questions" list from faq_suggestions.
+ * Students only see enabled rows (RLS); admins see all of them.
+ */
+export const useFaqSuggestions = () => {
+  const [suggestions, setSuggestions] = useState<FaqSuggestion[]>(FALLBACK_SUGGESTIONS);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('faq_suggestions')
+      .select('*')
+      .order('sort_order', { ascending: true });
+
+    if (error) {
+      console.error('Error loading FAQ suggestions:', error);
+    } else {
+      setSuggestions((data || []).map((row) => ({
+        id: row.id,
+        query: row.query,
+        category: row.category,
+        icon: row.icon,
+        sortOrder: row.sort_order,
+        enabled: row.enabled,
+      })));
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { suggestions, isLoading, refresh };
+};
@@ -0,0 +1,116 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export interface DislikedQuestion {
+  question: string;
+  dislikes: number;
+}
+
+export interface LowRatedAnswer {
+  chatId: string;
+  question: string;
+  answer: string;
+  provider: string | null;
+  reason: string | null;
+  ratedAt: string;
+}
+
+interface FeedbackSummary {
+  likes: number;
+  dislikes: number;
+  /** Share of reactions that are likes, 0-100 */
+  likeRatio: number;
+  mostDisliked: DislikedQuestion[];
+  lowRated: LowRatedAnswer[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+const MAX_ROWS = 1000;
+const TOP_QUESTIONS = 5;
+const LOW_RATED_LIMIT = 25;
+
+const normalize = (question: string) => question.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * FEEDBACK SUMMARY HOOK
+ * =====================
+ * Aggregates message_feedback into a like ratio, the most-disliked questions
+ * and the latest low-rated answers.
+ * 'mine' covers the signed-in user's ratings; 'all' relies on the admin RLS policy.
+ */
+export const useFeedbackSummary = (scope: 'mine' | 'all'): FeedbackSummary => {
+  const { user } = useAuth();
+  const [summary, setSummary] = useState<Omit<FeedbackSummary, 'isLoading' | 'error'>>({
+    likes: 0,
+    dislikes: 0,
+    likeRatio: 0,
+    mostDisliked: [],
+    lowRated: [],
+  });
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSummary = async () => {
+      if (!user) {
+        setIsLoading(false);
+        return;
+      }
+
+      let query = supabase
+        .from('message_feedback')
+        .select('chat_id, reaction, reason, updated_at, chat_history(user_query, ai_response, provider)')
+        .order('updated_at', { ascending: false })
+        .limit(MAX_ROWS);
+
+      if (scope === 'mine') {
+        query = query.eq('user_id', user.id);
+      }
+
+      const { data, error: fetchError } = await query;
+
+      if (fetchError) {
+        console.error('Error loading feedback summary:', fetchError);
+        setError('Failed to load feedback');
+        setIsLoading(false);
+        return;
+      }
+
+      const rows = data || [];
+      const dislikedRows = rows.filter((row) => row.reaction === 'dislike' && row.chat_history);
+      const likes = rows.length - rows.filter((row) => row.reaction === 'dislike').length;
+      const dislikes = rows.length - likes;
+
+      const counts = new Map<string, DislikedQuestion>();
+      dislikedRows.forEach((row) => {
+        const key = normalize(row.chat_history!.user_query);
+        const entry = counts.get(key) || { question: row.chat_history!.user_query, dislikes: 0 };
+        entry.dislikes++;
+        counts.set(key, entry);
+      });
+
+      setSummary({
+        likes,
+        dislikes,
+        likeRatio: rows.length > 0 ? Math.round((likes / rows.length) * 100) : 0,
+        mostDisliked: [...counts.values()].sort((a, b) => b.dislikes - a.dislikes).slice(0, TOP_QUESTIONS),
+        lowRated: dislikedRows.slice(0, LOW_RATED_LIMIT).map((row) => ({
+          chatId: row.chat_id,
+          question: row.chat_history!.user_query,
+          answer: row.chat_history!.ai_response,
+          provider: row.chat_history!.provider,
+          reason: row.reason,
+          ratedAt: row.updated_at,
+        })),
+      });
+      setError(null);
+      setIsLoading(false);
+    };
+
+    fetchSummary();
+  }, [user, scope]);
+
+  return { ...summary, isLoading, error };
+};
@@ -0,0 +1,61 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+interface IdleTimerOptions {
+  /** Inactivity before onIdle fires, in milliseconds */
+  timeout: number;
+  /** Hold the timer, e.g. while the user is talking or a reply is playing */
+  paused?: boolean;
+  onIdle: () => void;
+}
+
+interface IdleTimerHook {
+  /** Whole seconds until onIdle fires; stays at the full timeout while paused */
+  secondsLeft: number;
+  /** Count the current moment as activity */
+  reset: () => void;
+}
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel'] as const;
+
+/**
+ * IDLE TIMER HOOK
+ * ===============
+ * Fires onIdle once nobody has touched the page for `timeout` ms.
+ * Pointer and keyboard input restart the countdown, and so does
+ * leaving the paused state, so a long spoken reply never counts as idle time.
+ */
+export const useIdleTimer = ({ timeout, paused = false, onIdle }: IdleTimerOptions): IdleTimerHook => {
+  const [secondsLeft, setSecondsLeft] = useState(Math.ceil(timeout / 1000));
+  const lastActivityRef = useRef(Date.now());
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  const reset = useCallback(() => {
+    lastActivityRef.current = Date.now();
+    setSecondsLeft(Math.ceil(timeout / 1000));
+  }, [timeout]);
+
+  useEffect(() => {
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, reset, { passive: true }));
+    return () => ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, reset));
+  }, [reset]);
+
+  useEffect(() => {
+    reset();
+    if (paused) return;
+
+    const interval = setInterval(() => {
+      const remaining = timeout - (Date.now() - lastActivityRef.current);
+      if (remaining <= 0) {
+        onIdleRef.current();
+        reset();
+        return;
+      }
+      setSecondsLeft(Math.ceil(remaining / 1000));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [paused, timeout, reset]);
+
+  return { secondsLeft, reset };
+};
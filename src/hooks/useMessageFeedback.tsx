@@ -0,0 +1,87 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+export type Reaction = 'like' | 'dislike';
+
+/**
+ * MESSAGE FEEDBACK HOOK
+ * =====================
+ * Keeps the user's thumbs up/down reactions for loaded chat turns,
+ * keyed by chat_history id, and persists changes to message_feedback.
+ */
+export const useMessageFeedback = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [reactions, setReactions] = useState<Record<string, Reaction>>({});
+
+  // Restore reactions for turns that were just loaded from history
+  const loadFeedback = useCallback(async (chatIds: string[]) => {
+    if (!user || chatIds.length === 0) {
+      setReactions({});
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('message_feedback')
+      .select('chat_id, reaction')
+      .eq('user_id', user.id)
+      .in('chat_id', chatIds);
+
+    if (error) {
+      console.error('Error loading feedback:', error);
+      return;
+    }
+
+    setReactions(Object.fromEntries((data || []).map((row) => [row.chat_id, row.reaction as Reaction])));
+  }, [user]);
+
+  /**
+   * Set, change or clear (null) the reaction on a chat turn.
+   * A reason is only kept for dislikes.
+   */
+  const submitFeedback = useCallback(async (chatId: string, reaction: Reaction | null, reason?: string) => {
+    if (!user) return;
+
+    const previous = reactions[chatId];
+    setReactions((prev) => {
+      const next = { ...prev };
+      if (reaction) next[chatId] = reaction;
+      else delete next[chatId];
+      return next;
+    });
+
+    const { error } = reaction
+      ? await supabase
+          .from('message_feedback')
+          .upsert({
+            chat_id: chatId,
+            user_id: user.id,
+            reaction,
+            reason: reaction === 'dislike' ? reason?.trim().slice(0, 500) || null : null,
+          }, { onConflict: 'chat_id,user_id' })
+      : await supabase
+          .from('message_feedback')
+          .delete()
+          .eq('chat_id', chatId)
+          .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error saving feedback:', error);
+      setReactions((prev) => {
+        const next = { ...prev };
+        if (previous) next[chatId] = previous;
+        else delete next[chatId];
+        return next;
+      });
+      toast({
+        title: 'Error',
+        description: 'Failed to save your feedback.',
+        variant: 'destructive'
+      });
+    }
+  }, [user, reactions, toast]);
+
+  return { reactions, loadFeedback, submitFeedback };
+};
@@ -2,6 +2,11 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_SPEECH_SETTINGS, SpeechSettings } from '@/hooks/useSpeechSynthesis';
+import { DEFAULT_VOICE_CLIP_SETTINGS, VoiceClipSettings } from '@/hooks/useVoiceClips';
+
+/** Browser Web Speech API, or recorded audio sent to the transcribe function */
+export type SpeechRecognitionEngine = 'browser' | 'server';
 
 interface ProfileData {
   id: string;
@@ -19,6 +24,9 @@ interface ProfileData {
     theme: string;
     language: string;
     voice_enabled: boolean;
+    speech_recognition: SpeechRecognitionEngine;
+    tts: SpeechSettings;
+    voice_clips: VoiceClipSettings;
     email_notifications: boolean;
     system_alerts: boolean;
     chat_notifications: boolean;
@@ -29,6 +37,9 @@ const defaultPreferences = {
   theme: 'system',
   language: 'en',
   voice_enabled: true,
+  speech_recognition: 'browser',
+  tts: DEFAULT_SPEECH_SETTINGS,
+  voice_clips: DEFAULT_VOICE_CLIP_SETTINGS,
   email_notifications: true,
   system_alerts: true,
   chat_notifications: true,
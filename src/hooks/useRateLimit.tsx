@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from 'react';
+import { RateLimitInfo } from '@/lib/rateLimit';
+
+interface RateLimitHook {
+  /** The active limit, cleared once the countdown reaches zero */
+  rateLimit: RateLimitInfo | null;
+  secondsLeft: number;
+  startCooldown: (info: RateLimitInfo) => void;
+}
+
+/**
+ * RATE LIMIT HOOK
+ * ===============
+ * Counts down the retry-after of a chat-grok rate limit so the chat
+ * pages can disable sending and show when the user may try again.
+ */
+export const useRateLimit = (): RateLimitHook => {
+  const [rateLimit, setRateLimit] = useState<RateLimitInfo | null>(null);
+  const [resetAt, setResetAt] = useState(0);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  useEffect(() => {
+    if (!rateLimit) return;
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((resetAt - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0) setRateLimit(null);
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [rateLimit, resetAt]);
+
+  const startCooldown = useCallback((info: RateLimitInfo) => {
+    setResetAt(Date.now() + info.retryAfter * 1000);
+    setRateLimit(info);
+  }, []);
+
+  return { rateLimit, secondsLeft, startCooldown };
+};
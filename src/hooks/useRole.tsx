@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export type UserRole = 'student' | 'admin' | 'kiosk';
+
+interface RoleHook {
+  role: UserRole | null;
+  isAdmin: boolean;
+  loading: boolean;
+}
+
+/**
+ * ROLE HOOK
+ * =========
+ * Reads the signed-in user's role from profiles.role.
+ * This only drives the UI; access is enforced by RLS and the admin RPCs.
+ */
+export const useRole = (): RoleHook => {
+  const { user, loading: authLoading } = useAuth();
+  // Auth events (token refresh, sign-in again) hand out a new user object for the same account
+  const userId = user?.id;
+  const [role, setRole] = useState<UserRole | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!userId) {
+      setRole(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error('Error loading role:', error);
+        setRole((data?.role as UserRole) || 'student');
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, authLoading]);
+
+  return { role, isAdmin: role === 'admin', loading };
+};
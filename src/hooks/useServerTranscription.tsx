@@ -0,0 +1,188 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { SpeechRecognitionHook, TranscriptSegment } from '@/hooks/useSpeechRecognition';
+import { pickRecordingType } from '@/lib/audioRecording';
+
+/**
+ * Error message for a failed transcribe call, preferring the function's own.
+ */
+const transcriptionError = async (error: unknown) => {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await (error.context as Response).clone().json();
+      if (body.code === 'stt_unavailable') {
+        return 'Server transcription is not set up. Switch to browser recognition in Profile > Preferences.';
+      }
+      if (body.error) return body.error as string;
+    } catch {
+      // Not a JSON body; use the generic message
+    }
+  }
+  return 'Could not transcribe your recording. Please try again.';
+};
+
+/**
+ * SERVER TRANSCRIPTION HOOK
+ * =========================
+ * Drop-in replacement for useSpeechRecognition that records the utterance
+ * with MediaRecorder and sends it to the transcribe edge function
+ * (Whisper-compatible), so voice chat works in browsers without the
+ * Web Speech API and without sending audio to the browser vendor.
+ *
+ * There are no interim results: the transcript arrives once listening stops.
+ *
+ * @param locale BCP-47 language of the speech; its language part is passed to Whisper
+ */
+export const useServerTranscription = (locale = 'en-US'): SpeechRecognitionHook => {
+  const [finalSegments, setFinalSegments] = useState<TranscriptSegment[]>([]);
+  const [isListening, setIsListening] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [mediaStream, setMediaStream] = useState<MediaStream | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const mediaStreamRef = useRef<MediaStream | null>(null);
+  // Set when the recording should be dropped instead of transcribed (unmount)
+  const discardRef = useRef(false);
+
+  const isSupported = typeof window !== 'undefined' &&
+    'MediaRecorder' in window && !!navigator.mediaDevices?.getUserMedia;
+
+  const releaseStream = useCallback(() => {
+    mediaStreamRef.current?.getTracks().forEach(track => track.stop());
+    mediaStreamRef.current = null;
+    setMediaStream(null);
+  }, []);
+
+  // Stop recording without transcribing when the component unmounts
+  useEffect(() => {
+    discardRef.current = false;
+    return () => {
+      discardRef.current = true;
+      if (recorderRef.current?.state === 'recording') {
+        recorderRef.current.stop();
+      }
+      mediaStreamRef.current?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const transcribe = useCallback(async (audio: Blob, extension: string) => {
+    setIsTranscribing(true);
+
+    try {
+      const form = new FormData();
+      form.append('audio', audio, `utterance.${extension}`);
+      form.append('language', locale.split('-')[0]);
+
+      const { data, error } = await supabase.functions.invoke('transcribe', { body: form });
+      if (error) throw error;
+
+      const text = typeof data?.text === 'string' ? data.text.trim() : '';
+      if (text) {
+        // Whisper does not report a usable confidence
+        setFinalSegments(prev => [...prev, { text, confidence: 0, isFinal: true }]);
+      } else {
+        setError('No speech was detected. Please try again.');
+      }
+    } catch (err) {
+      console.error('Error transcribing audio:', err);
+      setError(await transcriptionError(err));
+    } finally {
+      setIsTranscribing(false);
+    }
+  }, [locale]);
+
+  const startListening = useCallback(async (deviceId?: string) => {
+    if (!isSupported) {
+      setError('Audio recording is not supported in your browser.');
+      return;
+    }
+
+    setError(null);
+
+    try {
+      if (recorderRef.current?.state === 'recording') {
+        recorderRef.current.stop();
+      }
+      releaseStream();
+
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+          echoCancellation: true,
+          noiseSuppression: true,
+          autoGainControl: true
+        }
+      });
+      mediaStreamRef.current = stream;
+      setMediaStream(stream);
+
+      const recordingType = pickRecordingType();
+      const recorder = new MediaRecorder(stream, recordingType ? { mimeType: recordingType.mimeType } : undefined);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => {
+        if (mediaStreamRef.current === stream) releaseStream();
+        if (discardRef.current || chunks.length === 0) return;
+        transcribe(new Blob(chunks, { type: recorder.mimeType }), recordingType?.extension ?? 'webm');
+      };
+
+      recorderRef.current = recorder;
+      recorder.start();
+      setIsListening(true);
+    } catch (err) {
+      console.error('Error starting audio recording:', err);
+      const name = err instanceof Error ? err.name : '';
+
+      if (name === 'NotAllowedError') {
+        setError('Microphone permission denied. Please allow access in your browser settings.');
+      } else if (name === 'NotFoundError') {
+        setError('Selected microphone not found. It may have been disconnected.');
+      } else if (name === 'OverconstrainedError') {
+        setError('Selected audio device is not available. Please try another device.');
+      } else {
+        setError('Failed to start listening. Please check your microphone connection.');
+      }
+
+      releaseStream();
+      setIsListening(false);
+    }
+  }, [isSupported, releaseStream, transcribe]);
+
+  const stopListening = useCallback(() => {
+    // The stream is released in onstop, after the last chunk is flushed
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    } else {
+      releaseStream();
+    }
+    setIsListening(false);
+  }, [releaseStream]);
+
+  const resetTranscript = useCallback(() => {
+    setFinalSegments([]);
+    setError(null);
+  }, []);
+
+  const finalTranscript = useMemo(
+    () => finalSegments.map(segment => segment.text).join(' '),
+    [finalSegments]
+  );
+
+  return {
+    finalTranscript,
+    interimTranscript: '',
+    segments: finalSegments,
+    isListening,
+    isTranscribing,
+    error,
+    mediaStream,
+    startListening,
+    stopListening,
+    resetTranscript,
+    isSupported
+  };
+};
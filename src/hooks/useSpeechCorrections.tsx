@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { TranscriptSegment } from '@/hooks/useSpeechRecognition';
+import { rankCandidates } from '@/lib/transcriptCorrection';
+
+export interface SpeechCorrection {
+  id: string;
+  heard: string;
+  canonical: string;
+  enabled: boolean;
+}
+
+/**
+ * SPEECH CORRECTIONS HOOK
+ * =======================
+ * Loads the campus vocabulary dictionary from speech_corrections.
+ * Students only see enabled rows (RLS); admins see all of them.
+ */
+export const useSpeechCorrections = () => {
+  const [corrections, setCorrections] = useState<SpeechCorrection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('speech_corrections')
+      .select('id, heard, canonical, enabled')
+      .order('canonical', { ascending: true });
+
+    if (error) {
+      console.error('Error loading speech corrections:', error);
+    } else {
+      setCorrections(data || []);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { corrections, isLoading, refresh };
+};
+
+/**
+ * Apply the campus vocabulary to recognized speech. Each final segment is
+ * replaced by the best of its recognizer alternatives after correction, and
+ * keeps the other corrected alternatives for the transcript editor;
+ * interim segments are left alone because they are about to change.
+ */
+export const useCorrectedTranscript = (segments: TranscriptSegment[]) => {
+  const { corrections } = useSpeechCorrections();
+  const entries = useMemo(() => corrections.filter(c => c.enabled), [corrections]);
+
+  return useMemo(() => {
+    const corrected = segments.map((segment): TranscriptSegment => {
+      if (!segment.isFinal) return segment;
+      const [best, ...alternatives] = rankCandidates([segment, ...(segment.alternatives ?? [])], entries);
+      return best ? { ...segment, ...best, alternatives } : segment;
+    });
+
+    return {
+      segments: corrected,
+      finalTranscript: corrected.filter(s => s.isFinal).map(s => s.text).join(' '),
+    };
+  }, [segments, entries]);
+};
@@ -1,9 +1,35 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 
-interface SpeechRecognitionHook {
-  transcript: string;
+export interface TranscriptAlternative {
+  text: string;
+  confidence: number;
+}
+
+export interface TranscriptSegment {
+  text: string;
+  /** Recognizer confidence, 0-1. Browsers often report 0 for interim results. */
+  confidence: number;
+  isFinal: boolean;
+  /** Other hypotheses for a final segment, most likely first */
+  alternatives?: TranscriptAlternative[];
+}
+
+/** Hypotheses requested per result, for campus vocabulary correction */
+const MAX_ALTERNATIVES = 3;
+
+export interface SpeechRecognitionHook {
+  /** Settled text; only grows while listening */
+  finalTranscript: string;
+  /** Text still being recognized; replaced on every result */
+  interimTranscript: string;
+  /** Final segments followed by the current interim ones */
+  segments: TranscriptSegment[];
   isListening: boolean;
+  /** Recorded audio is being transcribed (server transcription only) */
+  isTranscribing: boolean;
   error: string | null;
+  /** Microphone stream opened by startListening, for level metering */
+  mediaStream: MediaStream | null;
   startListening: (deviceId?: string) => void;
   stopListening: () => void;
   resetTranscript: () => void;
@@ -23,13 +49,23 @@ interface SpeechRecognitionHook {
  * Note: The Web Speech API uses the system's default audio input device,
  * or the device selected through getUserMedia constraints.
  * Bluetooth devices that are paired at the OS level will appear as available inputs.
+ *
+ * Final and interim results are kept apart so the UI can show what is
+ * still being recognized while the user talks.
+ *
+ * @param locale BCP-47 recognition language, e.g. 'hi-IN'. Applied on the next start.
  */
-export const useSpeechRecognition = (): SpeechRecognitionHook => {
-  const [transcript, setTranscript] = useState('');
+export const useSpeechRecognition = (locale = 'en-US'): SpeechRecognitionHook => {
+  const [finalSegments, setFinalSegments] = useState<TranscriptSegment[]>([]);
+  const [interimSegments, setInterimSegments] = useState<TranscriptSegment[]>([]);
   const [isListening, setIsListening] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const recognitionRef = useRef<any>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
+  // Settles when the running recognition session fires onend
+  const sessionEndRef = useRef<Promise<void> | null>(null);
+  const endSessionRef = useRef<(() => void) | null>(null);
+  const [mediaStream, setMediaStream] = useState<MediaStream | null>(null);
 
   const isSupported = typeof window !== 'undefined' && 
     ('SpeechRecognition' in window || 'webkitSpeechRecognition' in window);
@@ -52,19 +88,32 @@ export const useSpeechRecognition = (): SpeechRecognitionHook => {
     const recognition = recognitionRef.current;
     recognition.continuous = true;
     recognition.interimResults = true;
-    recognition.lang = 'en-US';
+    recognition.maxAlternatives = MAX_ALTERNATIVES;
 
     recognition.onresult = (event: any) => {
-      let finalTranscript = '';
+      const finals: TranscriptSegment[] = [];
+      const interims: TranscriptSegment[] = [];
       for (let i = event.resultIndex; i < event.results.length; i++) {
-        const transcript = event.results[i][0].transcript;
-        if (event.results[i].isFinal) {
-          finalTranscript += transcript + ' ';
+        const result = event.results[i];
+        const segment: TranscriptSegment = {
+          text: result[0].transcript.trim(),
+          confidence: result[0].confidence ?? 0,
+          isFinal: result.isFinal,
+        };
+        if (result.isFinal && result.length > 1) {
+          segment.alternatives = Array.from({ length: result.length - 1 }, (_, k) => ({
+            text: result[k + 1].transcript.trim(),
+            confidence: result[k + 1].confidence ?? 0,
+          })).filter(alternative => alternative.text);
         }
+        if (!segment.text) continue;
+        (segment.isFinal ? finals : interims).push(segment);
       }
-      if (finalTranscript) {
-        setTranscript(prev => prev + finalTranscript);
+      if (finals.length) {
+        setFinalSegments(prev => [...prev, ...finals]);
       }
+      // Interim results from resultIndex onwards are the whole pending utterance
+      setInterimSegments(interims);
     };
 
     recognition.onerror = (event: any) => {
@@ -95,6 +144,10 @@ export const useSpeechRecognition = (): SpeechRecognitionHook => {
 
     recognition.onend = () => {
       setIsListening(false);
+      setInterimSegments([]);
+      endSessionRef.current?.();
+      endSessionRef.current = null;
+      sessionEndRef.current = null;
     };
 
     return () => {
@@ -109,6 +162,7 @@ export const useSpeechRecognition = (): SpeechRecognitionHook => {
     }
     
     setError(null);
+    recognitionRef.current.lang = locale;
     
     try {
       // Stop any existing media stream
@@ -137,13 +191,20 @@ export const useSpeechRecognition = (): SpeechRecognitionHook => {
       // This is important for Bluetooth devices that may need to be "activated"
       const stream = await navigator.mediaDevices.getUserMedia(constraints);
       mediaStreamRef.current = stream;
+      setMediaStream(stream);
 
       // Note: Web Speech API doesn't directly accept a MediaStream,
       // but getting getUserMedia first ensures the correct device is selected
       // at the OS/browser level before starting recognition
       
+      // A stopped session ends asynchronously; starting again before onend throws
+      if (sessionEndRef.current) await sessionEndRef.current;
+
       setIsListening(true);
       recognitionRef.current.start();
+      sessionEndRef.current = new Promise(resolve => {
+        endSessionRef.current = resolve;
+      });
       
     } catch (err: any) {
       console.error('Error starting speech recognition:', err);
@@ -160,7 +221,7 @@ export const useSpeechRecognition = (): SpeechRecognitionHook => {
       
       setIsListening(false);
     }
-  }, [isSupported]);
+  }, [isSupported, locale]);
 
   const stopListening = useCallback(() => {
     if (recognitionRef.current) {
@@ -173,17 +234,36 @@ export const useSpeechRecognition = (): SpeechRecognitionHook => {
       mediaStreamRef.current.getTracks().forEach(track => track.stop());
       mediaStreamRef.current = null;
     }
+    setMediaStream(null);
   }, []);
 
   const resetTranscript = useCallback(() => {
-    setTranscript('');
+    setFinalSegments([]);
+    setInterimSegments([]);
     setError(null);
   }, []);
 
+  const finalTranscript = useMemo(
+    () => finalSegments.map(segment => segment.text).join(' '),
+    [finalSegments]
+  );
+  const interimTranscript = useMemo(
+    () => interimSegments.map(segment => segment.text).join(' '),
+    [interimSegments]
+  );
+  const segments = useMemo(
+    () => [...finalSegments, ...interimSegments],
+    [finalSegments, interimSegments]
+  );
+
   return {
-    transcript,
+    finalTranscript,
+    interimTranscript,
+    segments,
     isListening,
+    isTranscribing: false,
     error,
+    mediaStream,
     startListening,
     stopListening,
     resetTranscript,
@@ -1,47 +1,376 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { needsOutputRouting, routeToOutput } from '@/lib/audioOutput';
+import { SpokenSentence, splitIntoSentences } from '@/lib/speechText';
+
+/** Stored in profiles.preferences.tts (a type, not an interface, so it stays assignable to Json) */
+export type SpeechSettings = {
+  /** voiceURI of the chosen browser voice; null lets the language decide */
+  voice: string | null;
+  rate: number;
+  pitch: number;
+  volume: number;
+};
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  voice: null,
+  rate: 1,
+  pitch: 1,
+  volume: 1,
+};
+
+/** A span of the message being read, as offsets into the text passed to speak() */
+export interface SpokenRange {
+  start: number;
+  end: number;
+}
 
 interface SpeechSynthesisHook {
   speak: (text: string) => void;
   cancel: () => void;
+  /** Hold playback mid-sentence; resume() continues from the same place */
+  pause: () => void;
+  resume: () => void;
+  /** Drop the rest of the current sentence and start the next one */
+  skipSentence: () => void;
   isSpeaking: boolean;
+  isPaused: boolean;
+  /** Sentence being read, for highlighting; null when idle */
+  currentSentence: SpokenRange | null;
+  /** Word being read, from browser boundary events; null when the engine does not report them */
+  currentWord: SpokenRange | null;
   isMuted: boolean;
   toggleMute: () => void;
   isSupported: boolean;
+  /** Voices installed in the browser, for voice pickers */
+  voices: SpeechSynthesisVoice[];
 }
 
-export const useSpeechSynthesis = (): SpeechSynthesisHook => {
+/** Set once text-to-speech reports it is not configured or the daily limit is used up, to stop asking for the session */
+let deviceSpeechUnavailable = false;
+
+const languageOf = (tag: string) => tag.toLowerCase().split(/[-_]/)[0];
+
+/**
+ * Pick an installed voice for a locale. The user's chosen voice wins when it
+ * speaks the same language; otherwise exact match first ('hi-IN'), then any
+ * voice for the same language ('hi'). Returns undefined to let the browser
+ * choose from utterance.lang.
+ */
+const findVoice = (locale: string, preferredVoice: string | null) => {
+  const voices = window.speechSynthesis.getVoices();
+  const normalized = locale.toLowerCase();
+  const base = languageOf(locale);
+  const preferred = voices.find((voice) => voice.voiceURI === preferredVoice);
+  if (preferred && languageOf(preferred.lang) === base) return preferred;
+
+  return voices.find((voice) => voice.lang.toLowerCase().replace('_', '-') === normalized)
+    || voices.find((voice) => languageOf(voice.lang) === base);
+};
+
+/**
+ * Map a word reported by a boundary event in the speakable text back to the
+ * displayed message, searching forward from the previous word. Punctuation is
+ * trimmed because Markdown stripping changes it (table pipes become commas).
+ */
+const locateWord = (content: string, sentence: SpokenSentence, charIndex: number, charLength: number, from: number) => {
+  const length = charLength || sentence.text.slice(charIndex).search(/\s|$/);
+  const word = sentence.text
+    .slice(charIndex, charIndex + length)
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+  if (!word) return null;
+
+  const start = content.indexOf(word, Math.max(from, sentence.start));
+  if (start === -1 || start + word.length > sentence.end) return null;
+  return { start, end: start + word.length };
+};
+
+/**
+ * SPEECH SYNTHESIS HOOK
+ * =====================
+ * Reads replies aloud, one sentence at a time.
+ *
+ * Replies are converted to speakable text (no Markdown, URLs or citations)
+ * and split into sentences that are queued in order. Chrome silently stops
+ * utterances that run past ~15 seconds, and short utterances also let the
+ * chat highlight the sentence being read and skip ahead.
+ *
+ * The Web Speech API always plays on the system default speaker, so when
+ * another output device is selected each sentence is synthesized by the
+ * text-to-speech edge function and played through an <audio> element
+ * routed to that device, fetching the next sentence while the current one
+ * plays. If the browser cannot select outputs, or the function is
+ * unavailable, it falls back to the Web Speech API.
+ *
+ * @param locale BCP-47 language of the text being spoken, e.g. 'te-IN'
+ * @param outputDeviceId Speaker chosen in the audio device settings
+ * @param settings Voice, rate, pitch and volume from Profile > Preferences.
+ *   Server-synthesized audio honours rate and volume only.
+ */
+export const useSpeechSynthesis = (
+  locale = 'en-US',
+  outputDeviceId?: string | null,
+  settings: SpeechSettings = DEFAULT_SPEECH_SETTINGS
+): SpeechSynthesisHook => {
   const [isSpeaking, setIsSpeaking] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [currentSentence, setCurrentSentence] = useState<SpokenRange | null>(null);
+  const [currentWord, setCurrentWord] = useState<SpokenRange | null>(null);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
   const [isMuted, setIsMuted] = useState(false);
   const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  // The reply being read and the sentence queue built from it
+  const contentRef = useRef('');
+  const sentencesRef = useRef<SpokenSentence[]>([]);
+  const indexRef = useRef(0);
+  const wordCursorRef = useRef(0);
+  const pausedRef = useRef(false);
+  // 'device' while sentences are synthesized by the edge function
+  const routeRef = useRef<'device' | 'browser'>('browser');
+  // Server audio per sentence index, so the next sentence downloads while one plays
+  const audioCacheRef = useRef(new Map<number, Promise<Blob | null>>());
+  // Bumped on every speak/cancel/skip so callbacks from stopped sentences are ignored
+  const requestRef = useRef(0);
 
   const isSupported = typeof window !== 'undefined' && 'speechSynthesis' in window;
 
-  const speak = useCallback((text: string) => {
-    if (!isSupported || isMuted) return;
+  // Read by queued callbacks, so a settings change applies from the next sentence
+  const optionsRef = useRef({ locale, outputDeviceId, settings });
+  optionsRef.current = { locale, outputDeviceId, settings };
 
-    // Cancel any ongoing speech
-    window.speechSynthesis.cancel();
+  // Browsers load voices asynchronously and announce them with voiceschanged
+  useEffect(() => {
+    if (!isSupported) return;
+
+    const loadVoices = () => setVoices(window.speechSynthesis.getVoices());
+    loadVoices();
+    window.speechSynthesis.addEventListener('voiceschanged', loadVoices);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+  }, [isSupported]);
 
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.rate = 1;
-    utterance.pitch = 1;
-    utterance.volume = 1;
+  const stopAudio = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.pause();
+    URL.revokeObjectURL(audio.src);
+    audioRef.current = null;
+  }, []);
+
+  /** Stop whatever is playing; queued callbacks from it become stale */
+  const stopPlayback = useCallback(() => {
+    const request = ++requestRef.current;
+    stopAudio();
+    if (isSupported) {
+      window.speechSynthesis.cancel();
+      // A paused engine stays paused after cancel() in Chrome
+      window.speechSynthesis.resume();
+    }
+    return request;
+  }, [isSupported, stopAudio]);
 
-    utterance.onstart = () => setIsSpeaking(true);
-    utterance.onend = () => setIsSpeaking(false);
-    utterance.onerror = () => setIsSpeaking(false);
+  const finish = useCallback(() => {
+    sentencesRef.current = [];
+    audioCacheRef.current.clear();
+    pausedRef.current = false;
+    setIsSpeaking(false);
+    setIsPaused(false);
+    setCurrentSentence(null);
+    setCurrentWord(null);
+  }, []);
+
+  /**
+   * Server audio for a sentence, or null when the caller should fall back
+   * to the browser voice.
+   */
+  const fetchSentenceAudio = useCallback((index: number) => {
+    const cached = audioCacheRef.current.get(index);
+    if (cached) return cached;
+
+    const request = supabase.functions
+      .invoke('text-to-speech', { body: { text: sentencesRef.current[index].text } })
+      .then(({ data, error }) => {
+        if (error) {
+          const status = error instanceof FunctionsHttpError ? (error.context as Response).status : null;
+          if (status === 501 || status === 429) {
+            deviceSpeechUnavailable = true;
+          }
+          throw error;
+        }
+        return new Blob([data], { type: 'audio/mpeg' });
+      })
+      .catch((err) => {
+        console.warn('Falling back to the default speaker for spoken replies:', err);
+        return null;
+      });
+
+    audioCacheRef.current.set(index, request);
+    return request;
+  }, []);
+
+  // Declared before use by the players, which advance the queue when a sentence ends
+  const playSentenceRef = useRef<(index: number, request: number) => void>(() => {});
+
+  const speakWithBrowser = useCallback((sentence: SpokenSentence, index: number, request: number) => {
+    const { locale, settings } = optionsRef.current;
+    const utterance = new SpeechSynthesisUtterance(sentence.text);
+    utterance.rate = settings.rate;
+    utterance.pitch = settings.pitch;
+    utterance.volume = settings.volume;
+    utterance.lang = locale;
+    const voice = findVoice(locale, settings.voice);
+    if (voice) utterance.voice = voice;
+
+    utterance.onboundary = (event) => {
+      if (request !== requestRef.current || event.name !== 'word') return;
+      const word = locateWord(contentRef.current, sentence, event.charIndex, event.charLength, wordCursorRef.current);
+      if (word) {
+        wordCursorRef.current = word.end;
+        setCurrentWord(word);
+      }
+    };
+    utterance.onend = () => {
+      if (request === requestRef.current) playSentenceRef.current(index + 1, request);
+    };
+    utterance.onerror = (event) => {
+      // 'interrupted' and 'canceled' come from our own cancel() calls
+      if (request !== requestRef.current || event.error === 'interrupted' || event.error === 'canceled') return;
+      console.warn('Speech synthesis error:', event.error);
+      playSentenceRef.current(index + 1, request);
+    };
 
     utteranceRef.current = utterance;
     window.speechSynthesis.speak(utterance);
-  }, [isSupported, isMuted]);
+  }, []);
 
-  const cancel = useCallback(() => {
-    if (isSupported) {
-      window.speechSynthesis.cancel();
-      setIsSpeaking(false);
+  /**
+   * Play a sentence through the edge function on the chosen speaker.
+   * Falls back to the browser voice for the rest of the reply on failure.
+   */
+  const speakOnDevice = useCallback(async (sentence: SpokenSentence, index: number, request: number) => {
+    const { outputDeviceId, settings } = optionsRef.current;
+    const blob = await fetchSentenceAudio(index);
+    if (request !== requestRef.current) return;
+
+    if (index + 1 < sentencesRef.current.length && !deviceSpeechUnavailable) {
+      fetchSentenceAudio(index + 1);
+    }
+
+    const fallBack = () => {
+      routeRef.current = 'browser';
+      if (isSupported) {
+        speakWithBrowser(sentence, index, request);
+      } else {
+        finish();
+      }
+    };
+
+    if (!blob || !needsOutputRouting(outputDeviceId)) {
+      fallBack();
+      return;
+    }
+
+    try {
+      const audio = new Audio(URL.createObjectURL(blob));
+      await routeToOutput(audio, outputDeviceId);
+      if (request !== requestRef.current) {
+        URL.revokeObjectURL(audio.src);
+        return;
+      }
+
+      audio.playbackRate = settings.rate;
+      audio.volume = settings.volume;
+      audio.onended = () => {
+        if (audioRef.current === audio) stopAudio();
+        if (request === requestRef.current) playSentenceRef.current(index + 1, request);
+      };
+
+      audioRef.current = audio;
+      if (!pausedRef.current) await audio.play();
+    } catch (err) {
+      console.warn('Falling back to the default speaker for spoken replies:', err);
+      if (request === requestRef.current) {
+        stopAudio();
+        fallBack();
+      }
+    }
+  }, [isSupported, fetchSentenceAudio, speakWithBrowser, stopAudio, finish]);
+
+  playSentenceRef.current = (index: number, request: number) => {
+    const sentence = sentencesRef.current[index];
+    if (!sentence) {
+      finish();
+      return;
+    }
+
+    indexRef.current = index;
+    wordCursorRef.current = sentence.start;
+    setCurrentSentence({ start: sentence.start, end: sentence.end });
+    setCurrentWord(null);
+
+    if (routeRef.current === 'device') {
+      speakOnDevice(sentence, index, request);
+    } else {
+      speakWithBrowser(sentence, index, request);
     }
+  };
+
+  const speak = useCallback((text: string) => {
+    if (isMuted) return;
+
+    // Cancel any ongoing speech
+    const request = stopPlayback();
+    finish();
+
+    const sentences = splitIntoSentences(text, locale);
+    if (sentences.length === 0) return;
+    if (!isSupported && !needsOutputRouting(outputDeviceId)) return;
+
+    contentRef.current = text;
+    sentencesRef.current = sentences;
+    routeRef.current = needsOutputRouting(outputDeviceId) && !deviceSpeechUnavailable ? 'device' : 'browser';
+    setIsSpeaking(true);
+    playSentenceRef.current(0, request);
+  }, [isSupported, isMuted, locale, outputDeviceId, stopPlayback, finish]);
+
+  const cancel = useCallback(() => {
+    stopPlayback();
+    finish();
+  }, [stopPlayback, finish]);
+
+  const pause = useCallback(() => {
+    if (sentencesRef.current.length === 0) return;
+    pausedRef.current = true;
+    setIsPaused(true);
+    audioRef.current?.pause();
+    if (isSupported) window.speechSynthesis.pause();
   }, [isSupported]);
 
+  const resume = useCallback(() => {
+    if (!pausedRef.current) return;
+    pausedRef.current = false;
+    setIsPaused(false);
+    audioRef.current?.play();
+    if (isSupported) window.speechSynthesis.resume();
+  }, [isSupported]);
+
+  const skipSentence = useCallback(() => {
+    if (sentencesRef.current.length === 0) return;
+    const request = stopPlayback();
+    pausedRef.current = false;
+    setIsPaused(false);
+    playSentenceRef.current(indexRef.current + 1, request);
+  }, [stopPlayback]);
+
+  // Stop playback when the page unmounts
+  useEffect(() => () => {
+    requestRef.current++;
+    stopAudio();
+    if (isSupported) window.speechSynthesis.cancel();
+  }, [isSupported, stopAudio]);
+
   const toggleMute = useCallback(() => {
     if (isSpeaking) {
       cancel();
@@ -52,9 +381,16 @@ export const useSpeechSynthesis = (): SpeechSynthesisHook => {
   return {
     speak,
     cancel,
+    pause,
+    resume,
+    skipSentence,
     isSpeaking,
+    isPaused,
+    currentSentence,
+    currentWord,
     isMuted,
     toggleMute,
-    isSupported
+    isSupported,
+    voices
   };
 };
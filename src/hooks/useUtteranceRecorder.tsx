@@ -0,0 +1,75 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { pickRecordingType } from '@/lib/audioRecording';
+
+/** How long takeClips waits for a recorder that is still flushing its last chunk */
+const STOP_GRACE_MS = 1000;
+
+/**
+ * UTTERANCE RECORDER HOOK
+ * =======================
+ * Records the microphone stream opened by startListening, one clip per
+ * listening session, so the audio of a voice question can be kept next
+ * to its transcript. Pass null to record nothing.
+ *
+ * Clips pile up until they are taken (the question was sent) or
+ * discarded, so speech added to a transcript before sending is kept too.
+ */
+export const useUtteranceRecorder = (stream: MediaStream | null) => {
+  const clipsRef = useRef<Blob[]>([]);
+  // Settles once the current recorder has delivered its clip
+  const stoppedRef = useRef<Promise<void>>(Promise.resolve());
+  // Set by discardClips so a recorder still flushing does not add its clip afterwards
+  const recordingRef = useRef<{ discarded: boolean } | null>(null);
+
+  useEffect(() => {
+    if (!stream || typeof MediaRecorder === 'undefined') return;
+
+    const recordingType = pickRecordingType();
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(stream, recordingType ? { mimeType: recordingType.mimeType } : undefined);
+    } catch (err) {
+      console.error('Error starting utterance recording:', err);
+      return;
+    }
+
+    const chunks: Blob[] = [];
+    const recording = { discarded: false };
+    recordingRef.current = recording;
+    stoppedRef.current = new Promise((resolve) => {
+      recorder.onstop = () => {
+        if (chunks.length && !recording.discarded) {
+          clipsRef.current.push(new Blob(chunks, { type: recorder.mimeType }));
+        }
+        resolve();
+      };
+    });
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.start();
+
+    // The recorder also stops by itself when the stream's tracks end
+    return () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+  }, [stream]);
+
+  /** Clips recorded since the last take or discard, oldest first */
+  const takeClips = useCallback(async () => {
+    await Promise.race([
+      stoppedRef.current,
+      new Promise(resolve => setTimeout(resolve, STOP_GRACE_MS)),
+    ]);
+    const clips = clipsRef.current;
+    clipsRef.current = [];
+    return clips;
+  }, []);
+
+  const discardClips = useCallback(() => {
+    clipsRef.current = [];
+    if (recordingRef.current) recordingRef.current.discarded = true;
+  }, []);
+
+  return { takeClips, discardClips };
+};
@@ -0,0 +1,197 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+export interface VoiceActivitySettings {
+  /** Level (0-1, see toLevel) below which the microphone counts as silent */
+  silenceThreshold: number;
+  /** How long silence must last after speech before the utterance ends, in ms */
+  hangTime: number;
+  /** Interrupt spoken replies when the user starts talking (see useBargeIn) */
+  bargeIn: boolean;
+}
+
+export const DEFAULT_VOICE_ACTIVITY_SETTINGS: VoiceActivitySettings = {
+  silenceThreshold: 0.3,
+  hangTime: 1200,
+  bargeIn: true,
+};
+
+const SETTINGS_STORAGE_KEY = 'voiceActivitySettings';
+/** Quietest level shown on the meter; anything below reads as 0 */
+const MIN_DECIBELS = -60;
+/** Voiced time required before silence can end an utterance, so clicks and coughs are ignored */
+const MIN_SPEECH_MS = 250;
+/** Throttle for level state updates; the analyser itself is read every frame */
+const LEVEL_UPDATE_MS = 60;
+
+/**
+ * Map an RMS amplitude to a 0-1 level on a -60..0 dBFS scale,
+ * which tracks perceived loudness better than raw amplitude.
+ */
+const toLevel = (rms: number) => {
+  if (rms <= 0) return 0;
+  const decibels = 20 * Math.log10(rms);
+  return Math.min(1, Math.max(0, 1 - decibels / MIN_DECIBELS));
+};
+
+/**
+ * Current 0-1 level of an analyser's input. `samples` is a reusable
+ * buffer of analyser.fftSize floats.
+ */
+export const readLevel = (analyser: AnalyserNode, samples: Float32Array) => {
+  analyser.getFloatTimeDomainData(samples);
+  let sumOfSquares = 0;
+  for (const sample of samples) {
+    sumOfSquares += sample * sample;
+  }
+  return toLevel(Math.sqrt(sumOfSquares / samples.length));
+};
+
+/**
+ * Attach an AnalyserNode to a microphone stream. Returns null where
+ * the Web Audio API is unavailable.
+ */
+export const createStreamAnalyser = (stream: MediaStream) => {
+  const AudioContextAPI = window.AudioContext
+    || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextAPI) return null;
+
+  const audioContext = new AudioContextAPI();
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 1024;
+  const source = audioContext.createMediaStreamSource(stream);
+  source.connect(analyser);
+  audioContext.resume().catch(() => undefined);
+
+  return {
+    analyser,
+    close: () => {
+      source.disconnect();
+      audioContext.close();
+    },
+  };
+};
+
+/**
+ * Silence threshold and hang time, persisted in localStorage
+ * next to the preferred audio devices.
+ */
+export const useVoiceActivitySettings = () => {
+  const [settings, setSettings] = useState<VoiceActivitySettings>(() => {
+    try {
+      const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      return stored
+        ? { ...DEFAULT_VOICE_ACTIVITY_SETTINGS, ...JSON.parse(stored) }
+        : DEFAULT_VOICE_ACTIVITY_SETTINGS;
+    } catch {
+      return DEFAULT_VOICE_ACTIVITY_SETTINGS;
+    }
+  });
+
+  const updateSettings = useCallback((updates: Partial<VoiceActivitySettings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...updates };
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  return { settings, updateSettings };
+};
+
+interface VoiceActivityOptions extends Pick<VoiceActivitySettings, 'silenceThreshold' | 'hangTime'> {
+  /** Number of recent levels kept for the waveform bars */
+  historySize?: number;
+  /** Called once per utterance when speech is followed by hangTime of silence */
+  onEndOfUtterance?: () => void;
+}
+
+/**
+ * VOICE ACTIVITY HOOK
+ * ===================
+ * Meters a microphone stream with a Web Audio AnalyserNode and runs an
+ * energy-based voice activity detector on it.
+ *
+ * - level: current RMS level (0-1)
+ * - levels: the most recent levels, oldest first, for waveform bars
+ * - isVoiceActive: the level is above the silence threshold
+ *
+ * Pass a null stream to stop metering.
+ */
+export const useVoiceActivity = (
+  stream: MediaStream | null,
+  {
+    silenceThreshold,
+    hangTime,
+    historySize = 5,
+    onEndOfUtterance,
+  }: VoiceActivityOptions
+) => {
+  const [levels, setLevels] = useState<number[]>(() => Array(historySize).fill(0));
+  const [isVoiceActive, setIsVoiceActive] = useState(false);
+
+  // Read by the animation loop, so changing them does not rebuild the audio graph
+  const optionsRef = useRef({ silenceThreshold, hangTime, onEndOfUtterance });
+  optionsRef.current = { silenceThreshold, hangTime, onEndOfUtterance };
+
+  useEffect(() => {
+    setLevels(Array(historySize).fill(0));
+    setIsVoiceActive(false);
+
+    const meter = stream ? createStreamAnalyser(stream) : null;
+    if (!meter) return;
+
+    const { analyser } = meter;
+    const samples = new Float32Array(analyser.fftSize);
+    const history: number[] = Array(historySize).fill(0);
+    let animationFrame = 0;
+    let lastFrameAt = performance.now();
+    let lastUpdateAt = 0;
+    let lastVoiceAt = 0;
+    let speechMs = 0;
+    let voiced = false;
+
+    const tick = (now: number) => {
+      animationFrame = requestAnimationFrame(tick);
+      const elapsed = now - lastFrameAt;
+      lastFrameAt = now;
+
+      const level = readLevel(analyser, samples);
+
+      const { silenceThreshold, hangTime, onEndOfUtterance } = optionsRef.current;
+      const isAboveThreshold = level >= silenceThreshold;
+
+      if (isAboveThreshold) {
+        speechMs += elapsed;
+        lastVoiceAt = now;
+      } else if (speechMs >= MIN_SPEECH_MS && now - lastVoiceAt >= hangTime) {
+        speechMs = 0;
+        onEndOfUtterance?.();
+      }
+
+      if (isAboveThreshold !== voiced) {
+        voiced = isAboveThreshold;
+        setIsVoiceActive(voiced);
+      }
+
+      if (now - lastUpdateAt >= LEVEL_UPDATE_MS) {
+        lastUpdateAt = now;
+        history.shift();
+        history.push(level);
+        setLevels([...history]);
+      }
+    };
+
+    animationFrame = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(animationFrame);
+      meter.close();
+    };
+  }, [stream, historySize]);
+
+  return {
+    level: levels[levels.length - 1] ?? 0,
+    levels,
+    isVoiceActive,
+  };
+};
@@ -0,0 +1,92 @@
+import { useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { recordingExtension } from '@/lib/audioRecording';
+
+/** Storage bucket holding the recordings, one folder per user */
+export const VOICE_CLIP_BUCKET = 'voice-clips';
+
+/** Profile > Preferences settings for recording voice questions */
+export type VoiceClipSettings = {
+  /** Keep a recording of each voice question with its transcript */
+  record: boolean;
+  /** Days to keep recordings; null keeps them until the chat is cleared */
+  retention_days: number | null;
+};
+
+export const DEFAULT_VOICE_CLIP_SETTINGS: VoiceClipSettings = {
+  record: false,
+  retention_days: 30,
+};
+
+/**
+ * VOICE CLIPS HOOK
+ * ================
+ * Stores recordings of voice questions in the voice-clips bucket under
+ * <user id>/<conversation id>/ and links them to their chat turn in
+ * voice_clips. Deleting a chat turn removes the rows (cascade); the
+ * files are removed here, since the database cannot reach Storage.
+ * Expired recordings are removed by the purge-voice-clips function.
+ */
+export const useVoiceClips = () => {
+  const { user } = useAuth();
+
+  /** Upload the clips of one question; resolves to the stored paths, in order */
+  const saveClips = useCallback(async (chatId: string, conversationId: string, clips: Blob[]) => {
+    if (!user || clips.length === 0) return [];
+
+    const paths: string[] = [];
+    for (const [position, clip] of clips.entries()) {
+      const path = `${user.id}/${conversationId}/${chatId}-${position}.${recordingExtension(clip.type)}`;
+      const { error: uploadError } = await supabase.storage
+        .from(VOICE_CLIP_BUCKET)
+        .upload(path, clip, { contentType: clip.type.split(';')[0] });
+      if (uploadError) {
+        console.error('Error uploading voice clip:', uploadError);
+        continue;
+      }
+
+      const { error } = await supabase
+        .from('voice_clips')
+        .insert({ chat_id: chatId, user_id: user.id, path, position });
+      if (error) {
+        console.error('Error saving voice clip:', error);
+        await supabase.storage.from(VOICE_CLIP_BUCKET).remove([path]);
+        continue;
+      }
+      paths.push(path);
+    }
+    return paths;
+  }, [user]);
+
+  /** Remove every recording in a conversation; call before deleting its messages */
+  const deleteConversationClips = useCallback(async (conversationId: string) => {
+    if (!user) return;
+
+    const folder = `${user.id}/${conversationId}`;
+    const { data, error } = await supabase.storage
+      .from(VOICE_CLIP_BUCKET)
+      .list(folder, { limit: 1000 });
+    if (error) {
+      console.error('Error listing voice clips:', error);
+      return;
+    }
+    if (!data?.length) return;
+
+    const { error: removeError } = await supabase.storage
+      .from(VOICE_CLIP_BUCKET)
+      .remove(data.map(file => `${folder}/${file.name}`));
+    if (removeError) console.error('Error deleting voice clips:', removeError);
+  }, [user]);
+
+  /** Short-lived links for playing clips back, one per path; null where a clip is gone */
+  const getClipUrls = useCallback(async (paths: string[]): Promise<(string | null)[]> => {
+    const { data, error } = await supabase.storage
+      .from(VOICE_CLIP_BUCKET)
+      .createSignedUrls(paths, 60 * 60);
+    if (error) throw error;
+    return data.map(item => item.signedUrl || null);
+  }, []);
+
+  return { saveClips, deleteConversationClips, getClipUrls };
+};
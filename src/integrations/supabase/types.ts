@@ -14,33 +14,349 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_providers: {
+        Row: {
+          api_key_env: string | null
+          api_key_required: boolean
+          base_url: string
+          created_at: string
+          enabled: boolean
+          extra_body: Json
+          model: string
+          name: string
+          priority: number
+          retryable_statuses: number[]
+          updated_at: string
+        }
+        Insert: {
+          api_key_env?: string | null
+          api_key_required?: boolean
+          base_url: string
+          created_at?: string
+          enabled?: boolean
+          extra_body?: Json
+          model: string
+          name: string
+          priority?: number
+          retryable_statuses?: number[]
+          updated_at?: string
+        }
+        Update: {
+          api_key_env?: string | null
+          api_key_required?: boolean
+          base_url?: string
+          created_at?: string
+          enabled?: boolean
+          extra_body?: Json
+          model?: string
+          name?: string
+          priority?: number
+          retryable_statuses?: number[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      answer_cache: {
+        Row: {
+          created_at: string
+          expires_at: string
+          hits: number
+          last_hit_at: string | null
+          provider: string
+          question: string
+          question_key: string
+          response: string
+          sources: string[]
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          hits?: number
+          last_hit_at?: string | null
+          provider: string
+          question: string
+          question_key: string
+          response: string
+          sources?: string[]
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          hits?: number
+          last_hit_at?: string | null
+          provider?: string
+          question?: string
+          question_key?: string
+          response?: string
+          sources?: string[]
+        }
+        Relationships: []
+      }
       chat_history: {
         Row: {
           ai_response: string
+          cached: boolean
+          conversation_id: string | null
           created_at: string
           id: string
           input_type: string | null
+          provider: string | null
           user_id: string
           user_query: string
         }
         Insert: {
           ai_response: string
+          cached?: boolean
+          conversation_id?: string | null
           created_at?: string
           id?: string
           input_type?: string | null
+          provider?: string | null
           user_id: string
           user_query: string
         }
         Update: {
           ai_response?: string
+          cached?: boolean
+          conversation_id?: string | null
           created_at?: string
           id?: string
           input_type?: string | null
+          provider?: string | null
           user_id?: string
           user_query?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "chat_history_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_rate_limits: {
+        Row: {
+          messages_per_day: number | null
+          requests_per_minute: number | null
+          role: string
+          tokens_per_day: number | null
+          transcriptions_per_day: number | null
+          tts_characters_per_day: number | null
+          updated_at: string
+        }
+        Insert: {
+          messages_per_day?: number | null
+          requests_per_minute?: number | null
+          role: string
+          tokens_per_day?: number | null
+          transcriptions_per_day?: number | null
+          tts_characters_per_day?: number | null
+          updated_at?: string
+        }
+        Update: {
+          messages_per_day?: number | null
+          requests_per_minute?: number | null
+          role?: string
+          tokens_per_day?: number | null
+          transcriptions_per_day?: number | null
+          tts_characters_per_day?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      chat_usage: {
+        Row: {
+          created_at: string
+          id: string
+          tokens: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          tokens?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          tokens?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      conversations: {
+        Row: {
+          archived: boolean
+          created_at: string
+          id: string
+          language: string | null
+          mode: string
+          title: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          archived?: boolean
+          created_at?: string
+          id?: string
+          language?: string | null
+          mode?: string
+          title?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          archived?: boolean
+          created_at?: string
+          id?: string
+          language?: string | null
+          mode?: string
+          title?: string | null
+          updated_at?: string
+          user_id?: string
+        }
         Relationships: []
       }
+      faq_suggestions: {
+        Row: {
+          category: string
+          created_at: string
+          enabled: boolean
+          icon: string
+          id: string
+          query: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          enabled?: boolean
+          icon?: string
+          id?: string
+          query: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          enabled?: boolean
+          icon?: string
+          id?: string
+          query?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      knowledge_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          created_at: string
+          document_id: string
+          heading: string | null
+          id: string
+          search_vector: unknown
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          created_at?: string
+          document_id: string
+          heading?: string | null
+          id?: string
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          document_id?: string
+          heading?: string | null
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "knowledge_chunks_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "knowledge_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      knowledge_documents: {
+        Row: {
+          content_type: string
+          created_at: string
+          created_by: string | null
+          id: string
+          source: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          content_type?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          source: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          source?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      message_feedback: {
+        Row: {
+          chat_id: string
+          created_at: string
+          id: string
+          reaction: string
+          reason: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          chat_id: string
+          created_at?: string
+          id?: string
+          reaction: string
+          reason?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          chat_id?: string
+          created_at?: string
+          id?: string
+          reaction?: string
+          reason?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_feedback_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chat_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -86,12 +402,191 @@ export type Database = {
         }
         Relationships: []
       }
+      speech_corrections: {
+        Row: {
+          canonical: string
+          created_at: string
+          enabled: boolean
+          heard: string
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          canonical: string
+          created_at?: string
+          enabled?: boolean
+          heard: string
+          id?: string
+          updated_at?: string
+        }
+        Update: {
+          canonical?: string
+          created_at?: string
+          enabled?: boolean
+          heard?: string
+          id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      speech_usage: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          kind: string
+          user_id: string
+        }
+        Insert: {
+          amount?: number
+          created_at?: string
+          id?: string
+          kind: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          kind?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      voice_clips: {
+        Row: {
+          chat_id: string
+          created_at: string
+          id: string
+          path: string
+          position: number
+          user_id: string
+        }
+        Insert: {
+          chat_id: string
+          created_at?: string
+          id?: string
+          path: string
+          position?: number
+          user_id: string
+        }
+        Update: {
+          chat_id?: string
+          created_at?: string
+          id?: string
+          path?: string
+          position?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "voice_clips_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chat_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      admin_chat_volume: {
+        Args: { _days?: number }
+        Returns: {
+          active_users: number
+          cached_count: number
+          day: string
+          text_count: number
+          voice_count: number
+        }[]
+      }
+      admin_list_users: {
+        Args: never
+        Returns: {
+          created_at: string
+          email: string
+          last_login: string
+          last_message_at: string
+          message_count: number
+          name: string
+          role: string
+          user_id: string
+        }[]
+      }
+      clear_answer_cache: { Args: never; Returns: number }
+      consume_chat_quota: {
+        Args: { _user_id: string }
+        Returns: {
+          allowed: boolean
+          exceeded_limit: string
+          limit_value: number
+          retry_after_seconds: number
+          usage_id: string
+        }[]
+      }
+      consume_speech_quota: {
+        Args: { _amount: number; _kind: string; _user_id: string }
+        Returns: {
+          allowed: boolean
+          exceeded_limit: string
+          limit_value: number
+          retry_after_seconds: number
+          usage_id: string
+        }[]
+      }
+      expired_voice_clips: {
+        Args: { _limit: number }
+        Returns: {
+          id: string
+          path: string
+        }[]
+      }
+      is_admin: { Args: { _user_id?: string }; Returns: boolean }
+      is_kiosk: { Args: { _user_id?: string }; Returns: boolean }
+      match_knowledge_chunks: {
+        Args: { match_count?: number; query_text: string }
+        Returns: {
+          chunk_index: number
+          content: string
+          heading: string
+          id: string
+          rank: number
+          source: string
+          title: string
+        }[]
+      }
+      record_answer_cache_hit: {
+        Args: { _question_key: string }
+        Returns: undefined
+      }
+      replace_knowledge_chunks: {
+        Args: { _chunks: Json; _document_id: string }
+        Returns: number
+      }
+      save_chat_turn: {
+        Args: {
+          _ai_response: string
+          _cached: boolean
+          _conversation_id: string
+          _input_type: string
+          _mode: string
+          _provider: string
+          _title: string
+          _user_id: string
+          _user_query: string
+        }
+        Returns: {
+          chat_id: string
+          conversation_id: string
+        }[]
+      }
+      set_user_role: {
+        Args: { _role: string; _user_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,60 @@
+/** Output device id browsers use for the system default speaker */
+export const DEFAULT_OUTPUT_DEVICE = 'default';
+
+type SinkAudioElement = HTMLAudioElement & { setSinkId: (deviceId: string) => Promise<void> };
+
+/**
+ * Whether audio can be sent to a chosen speaker (HTMLMediaElement.setSinkId).
+ * Firefox and Safari lack it, so playback there always uses the system default.
+ */
+export const supportsOutputSelection = () =>
+  typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+/**
+ * Whether playback must be routed explicitly to reach the chosen speaker.
+ */
+export const needsOutputRouting = (deviceId?: string | null): deviceId is string =>
+  !!deviceId && deviceId !== DEFAULT_OUTPUT_DEVICE && supportsOutputSelection();
+
+/**
+ * Point an audio element at an output device.
+ * Throws if the device is gone or the browser refuses the switch.
+ */
+export const routeToOutput = async (audio: HTMLAudioElement, deviceId: string) => {
+  await (audio as SinkAudioElement).setSinkId(deviceId);
+};
+
+/**
+ * Play a short two-note chime on an output device so users can check
+ * which speaker replies will come out of.
+ */
+export const playTestTone = async (deviceId?: string | null) => {
+  const audioContext = new AudioContext();
+  const destination = audioContext.createMediaStreamDestination();
+  const gain = audioContext.createGain();
+  gain.connect(destination);
+
+  const start = audioContext.currentTime;
+  [660, 880].forEach((frequency, i) => {
+    const oscillator = audioContext.createOscillator();
+    oscillator.frequency.value = frequency;
+    oscillator.connect(gain);
+    oscillator.start(start + i * 0.25);
+    oscillator.stop(start + i * 0.25 + 0.2);
+  });
+  gain.gain.setValueAtTime(0.2, start);
+
+  const audio = new Audio();
+  audio.srcObject = destination.stream;
+  try {
+    if (needsOutputRouting(deviceId)) {
+      await routeToOutput(audio, deviceId);
+    }
+    await audio.play();
+    await new Promise((resolve) => setTimeout(resolve, 600));
+  } finally {
+    audio.pause();
+    audio.srcObject = null;
+    audioContext.close();
+  }
+};
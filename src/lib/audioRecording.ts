@@ -0,0 +1,13 @@
+/** Recorder formats in order of preference; Whisper accepts all of them */
+export const RECORDING_TYPES = [
+  { mimeType: 'audio/webm;codecs=opus', extension: 'webm' },
+  { mimeType: 'audio/ogg;codecs=opus', extension: 'ogg' },
+  { mimeType: 'audio/mp4', extension: 'mp4' },
+];
+
+export const pickRecordingType = () =>
+  RECORDING_TYPES.find(({ mimeType }) => MediaRecorder.isTypeSupported(mimeType));
+
+/** File extension for a recorded blob's type, e.g. 'audio/webm;codecs=opus' → 'webm' */
+export const recordingExtension = (mimeType: string) =>
+  RECORDING_TYPES.find(type => type.mimeType.split(';')[0] === mimeType.split(';')[0])?.extension ?? 'webm';
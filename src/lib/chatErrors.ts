@@ -0,0 +1,58 @@
+import { FunctionsFetchError, FunctionsHttpError } from '@supabase/supabase-js';
+import { RateLimitInfo, readRateLimit } from '@/lib/rateLimit';
+
+export type ChatErrorKind =
+  /** The user's own chat-grok limit; see rateLimit for when to try again */
+  | 'rate_limited'
+  /** Every AI provider is throttling requests */
+  | 'provider_busy'
+  /** No provider can answer (credits, licenses, not configured) */
+  | 'unavailable'
+  /** The request never reached chat-grok */
+  | 'network'
+  /** Stopped by the user */
+  | 'cancelled'
+  | 'failed';
+
+export interface ChatError {
+  kind: ChatErrorKind;
+  /** Shown to the user */
+  message: string;
+  /** Set for 'rate_limited' */
+  rateLimit?: RateLimitInfo;
+  /** Asking the same question again may work */
+  retryable: boolean;
+}
+
+const chatError = (kind: ChatErrorKind, message: string, retryable = true): ChatError => ({ kind, message, retryable });
+
+export const CANCELLED_ERROR = chatError('cancelled', 'Stopped before the answer finished.');
+
+/**
+ * Classify a failed chat-grok call by its HTTP status, falling back to the
+ * message for errors reported inside the response stream.
+ */
+export const toChatError = async (error: unknown): Promise<ChatError> => {
+  const rateLimit = await readRateLimit(error);
+  if (rateLimit) {
+    return { kind: 'rate_limited', message: rateLimit.message, rateLimit, retryable: false };
+  }
+
+  if (error instanceof FunctionsFetchError) {
+    return chatError('network', 'Could not reach the assistant. Check your connection and try again.');
+  }
+
+  const status = error instanceof FunctionsHttpError ? (error.context as Response).status : null;
+  const raw = error instanceof Error ? error.message.toLowerCase() : '';
+
+  if (status === 429) {
+    return chatError('provider_busy', 'Too many requests. Please wait a moment and try again.');
+  }
+  if (status === 403 || raw.includes('credits') || raw.includes('licenses')) {
+    return chatError('unavailable', 'AI service is unavailable right now (provider credits required). Please try again later.', false);
+  }
+  if (status === 402) {
+    return chatError('unavailable', 'Service temporarily unavailable. Please try again later.', false);
+  }
+  return chatError('failed', 'Failed to get a response. Please try again.');
+};
@@ -0,0 +1,67 @@
+export interface ChatStreamResult {
+  /** chat_history row id of the stored turn, null if it could not be saved */
+  id?: string | null;
+  /** Conversation the turn was stored in; a new one is started when none was given */
+  conversationId?: string | null;
+  response: string;
+  provider?: string;
+  sources?: string[];
+  /** Answered from the server-side answer cache */
+  cached?: boolean;
+}
+
+/**
+ * Read the Server-Sent Events stream returned by the chat-grok function.
+ * Calls `onText` with the accumulated text after every delta and resolves
+ * with the final text once the function reports completion.
+ */
+export const readChatStream = async (
+  response: Response,
+  onText: (text: string) => void
+): Promise<ChatStreamResult> => {
+  if (!response.body) {
+    throw new Error('Empty response stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const frames = buffer.split('\n\n');
+    buffer = frames.pop() ?? '';
+
+    for (const frame of frames) {
+      const line = frame.trim();
+      if (!line.startsWith('data:')) continue;
+
+      const event = JSON.parse(line.slice(5).trim());
+
+      if (event.error) {
+        throw new Error(event.error);
+      }
+      if (event.delta) {
+        text += event.delta;
+        onText(text);
+      }
+      if (event.done) {
+        return {
+          id: event.id,
+          conversationId: event.conversationId,
+          response: event.response ?? text,
+          provider: event.provider,
+          sources: event.sources,
+          cached: event.cached
+        };
+      }
+    }
+  }
+
+  // Connection dropped before the completion frame arrived
+  throw new Error('The AI response ended unexpectedly.');
+};
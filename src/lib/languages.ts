@@ -0,0 +1,30 @@
+export interface Language {
+  /** Stored in profiles.preferences.language and conversations.language */
+  code: string;
+  /** Native name shown in pickers */
+  label: string;
+  /** English name, used to instruct the model */
+  name: string;
+  /** BCP-47 locale for speech recognition and synthesis */
+  locale: string;
+}
+
+/** Keep in sync with supabase/functions/chat-grok/languages.ts */
+export const LANGUAGES: Language[] = [
+  { code: 'en', label: 'English', name: 'English', locale: 'en-US' },
+  { code: 'hi', label: 'हिंदी', name: 'Hindi', locale: 'hi-IN' },
+  { code: 'te', label: 'తెలుగు', name: 'Telugu', locale: 'te-IN' },
+  { code: 'ta', label: 'தமிழ்', name: 'Tamil', locale: 'ta-IN' },
+  { code: 'kn', label: 'ಕನ್ನಡ', name: 'Kannada', locale: 'kn-IN' },
+  { code: 'ml', label: 'മലയാളം', name: 'Malayalam', locale: 'ml-IN' },
+  { code: 'mr', label: 'मराठी', name: 'Marathi', locale: 'mr-IN' },
+  { code: 'bn', label: 'বাংলা', name: 'Bengali', locale: 'bn-IN' },
+  { code: 'es', label: 'Español', name: 'Spanish', locale: 'es-ES' },
+  { code: 'fr', label: 'Français', name: 'French', locale: 'fr-FR' },
+  { code: 'de', label: 'Deutsch', name: 'German', locale: 'de-DE' },
+];
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export const getLanguage = (code?: string | null): Language =>
+  LANGUAGES.find((language) => language.code === code) || LANGUAGES[0];
@@ -0,0 +1,40 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+export type RateLimitKind =
+  | 'requests_per_minute'
+  | 'messages_per_day'
+  | 'tokens_per_day'
+  | 'tts_characters_per_day'
+  | 'transcriptions_per_day';
+
+export interface RateLimitInfo {
+  /** Message from the edge function describing which limit was hit */
+  message: string;
+  limit: RateLimitKind;
+  /** Seconds until the limit resets */
+  retryAfter: number;
+}
+
+/**
+ * Extract the structured 429 that chat-grok (and the speech functions) return when a per-user limit is hit.
+ * Returns null for any other error, including provider-side 429s.
+ */
+export const readRateLimit = async (error: unknown): Promise<RateLimitInfo | null> => {
+  if (!(error instanceof FunctionsHttpError)) return null;
+
+  const response = error.context as Response;
+  if (response.status !== 429) return null;
+
+  try {
+    const body = await response.clone().json();
+    if (body.code !== 'rate_limited') return null;
+
+    return {
+      message: body.error,
+      limit: body.limit,
+      retryAfter: Number(body.retryAfter) || Number(response.headers.get('Retry-After')) || 60
+    };
+  } catch {
+    return null;
+  }
+};
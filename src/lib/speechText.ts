@@ -0,0 +1,100 @@
+/** One utterance of a spoken answer, with its position in the displayed text */
+export interface SpokenSentence {
+  /** Speakable text, with Markdown, links and citations removed */
+  text: string;
+  /** Offsets into the original content, for highlighting */
+  start: number;
+  end: number;
+}
+
+/** Long sentences are split further; Chrome cuts off utterances after ~15 seconds */
+const MAX_SENTENCE_LENGTH = 220;
+
+type SentenceSegmenter = {
+  segment: (text: string) => Iterable<{ segment: string; index: number }>;
+};
+type SegmenterConstructor = new (locale?: string, options?: { granularity: 'sentence' }) => SentenceSegmenter;
+
+const Segmenter = (Intl as unknown as { Segmenter?: SegmenterConstructor }).Segmenter;
+
+/**
+ * Turn an answer's Markdown into text worth reading aloud: formatting marks,
+ * code fences, URLs and [source#n] citations are dropped, link text is kept.
+ */
+export const toSpeakableText = (markdown: string) =>
+  markdown
+    .replace(/```[\s\S]*?```|```\w*/g, ' ')
+    .replace(/!?\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+|www\.\S+/g, ' ')
+    .replace(/\[[^\]\s]+#\d+\]/g, ' ')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/^\s*#{1,6}\s+/gm, '')
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/gm, '')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/(\*{1,3}|_{1,3}|~~)(\S(?:.*?\S)?)\1/g, '$2')
+    .replace(/\s*\|\s*/g, ', ')
+    .replace(/\s+/g, ' ')
+    .replace(/ ([.,!?;:।])/g, '$1')
+    .trim();
+
+/**
+ * Sentence ranges of one line. Intl.Segmenter handles scripts whose sentence
+ * marks differ (e.g. the Devanagari danda); older browsers get a regex.
+ */
+const segmentLine = (line: string, offset: number, locale?: string) => {
+  const ranges: Array<[number, number]> = [];
+
+  if (Segmenter) {
+    for (const { segment, index } of new Segmenter(locale, { granularity: 'sentence' }).segment(line)) {
+      ranges.push([offset + index, offset + index + segment.length]);
+    }
+    return ranges;
+  }
+
+  for (const match of line.matchAll(/[^.!?।]+(?:[.!?।]+|$)\s*/g)) {
+    ranges.push([offset + match.index!, offset + match.index! + match[0].length]);
+  }
+  return ranges;
+};
+
+/**
+ * Cut a range longer than MAX_SENTENCE_LENGTH at commas, semicolons or,
+ * failing that, spaces.
+ */
+const splitLongRange = (content: string, [start, end]: [number, number]) => {
+  const ranges: Array<[number, number]> = [];
+
+  while (end - start > MAX_SENTENCE_LENGTH) {
+    const window = content.slice(start, start + MAX_SENTENCE_LENGTH);
+    const cut = Math.max(window.lastIndexOf(', '), window.lastIndexOf('; '));
+    const at = cut > MAX_SENTENCE_LENGTH / 3 ? cut + 2 : window.lastIndexOf(' ') + 1 || MAX_SENTENCE_LENGTH;
+    ranges.push([start, start + at]);
+    start += at;
+  }
+
+  ranges.push([start, end]);
+  return ranges;
+};
+
+/**
+ * Split an answer into sentence-sized utterances. Lines are split separately
+ * so list items and headings never run together.
+ */
+export const splitIntoSentences = (content: string, locale?: string): SpokenSentence[] => {
+  const sentences: SpokenSentence[] = [];
+  let offset = 0;
+
+  for (const line of content.split('\n')) {
+    for (const range of segmentLine(line, offset, locale)) {
+      for (const [start, end] of splitLongRange(content, range)) {
+        const text = toSpeakableText(content.slice(start, end));
+        if (/[\p{L}\p{N}]/u.test(text)) {
+          sentences.push({ text, start, end });
+        }
+      }
+    }
+    offset += line.length + 1;
+  }
+
+  return sentences;
+};
@@ -0,0 +1,138 @@
+/** A dictionary row: a form the recognizer produces and the campus term meant */
+export interface CorrectionEntry {
+  heard: string;
+  canonical: string;
+}
+
+/** One recognizer hypothesis for an utterance */
+export interface RecognitionCandidate {
+  text: string;
+  confidence: number;
+}
+
+/** Longest run of recognized words compared against one dictionary form ("j n t u h") */
+const MAX_WINDOW_WORDS = 5;
+/** Keys shorter than this are matched exactly only; "est" would turn "east" into ECET */
+const MIN_FUZZY_LENGTH = 4;
+/** Added to a candidate's confidence for every campus term it contains */
+const CAMPUS_TERM_BONUS = 0.15;
+
+const squash = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Rough phonetic key: common spellings of the same sound are merged, then
+ * vowels after the first letter and repeated letters are dropped, so
+ * "emset" and "eamcet" both become "emst".
+ */
+const soundKey = (text: string) => {
+  const spelled = squash(text)
+    .replace(/ph/g, 'f')
+    .replace(/ck/g, 'k')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/[cq]/g, 'k')
+    .replace(/x/g, 'ks')
+    .replace(/z/g, 's')
+    .replace(/dg/g, 'j')
+    .replace(/v/g, 'f');
+  return (spelled.charAt(0) + spelled.slice(1).replace(/[aeiouyhw]/g, '')).replace(/(.)\1+/g, '$1');
+};
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * How well a run of words matches a dictionary form: 3 exact, 2 same sound,
+ * 1 within one edit per six letters, 0 no match.
+ */
+const matchScore = (words: string, form: string) => {
+  if (words === form) return 3;
+  if (form.length < MIN_FUZZY_LENGTH || words.length < MIN_FUZZY_LENGTH) return 0;
+
+  const key = soundKey(form);
+  if (key.length >= MIN_FUZZY_LENGTH && soundKey(words) === key) return 2;
+  if (editDistance(words, form) <= Math.floor(form.length / 6)) return 1;
+  return 0;
+};
+
+/**
+ * Replace misheard campus terms in a transcript with their canonical form.
+ * Both the dictionary's heard forms and the canonical terms themselves are
+ * matched, ignoring spacing and case, so "J N T U H", "jn tuh" and "jntuh"
+ * all become "JNTUH". Returns how many campus terms the result contains.
+ */
+export const correctTranscript = (text: string, entries: CorrectionEntry[]) => {
+  const forms = entries.flatMap(({ heard, canonical }) => [
+    { form: squash(heard), canonical },
+    { form: squash(canonical), canonical },
+  ]).filter(({ form }) => form);
+
+  const words = text.split(/\s+/).filter(Boolean);
+  const output: string[] = [];
+  let terms = 0;
+
+  for (let i = 0; i < words.length;) {
+    let best: { length: number; canonical: string; score: number } | null = null;
+
+    for (let length = Math.min(MAX_WINDOW_WORDS, words.length - i); length >= 1; length--) {
+      const window = squash(words.slice(i, i + length).join(''));
+      if (!window) continue;
+
+      for (const { form, canonical } of forms) {
+        const score = matchScore(window, form);
+        if (score && (!best || score > best.score)) {
+          best = { length, canonical, score };
+        }
+      }
+    }
+
+    if (!best) {
+      output.push(words[i]);
+      i++;
+      continue;
+    }
+
+    // Keep punctuation that followed the replaced words ("EAMCET?")
+    const trailing = words[i + best.length - 1].match(/[^\p{L}\p{N}]+$/u)?.[0] ?? '';
+    output.push(best.canonical + trailing);
+    terms++;
+    i += best.length;
+  }
+
+  return { text: output.join(' '), terms };
+};
+
+/**
+ * Correct every recognizer alternative and order them by plausibility:
+ * confidence plus a bonus for each campus term, since a hypothesis that
+ * mentions "EAMCET" is likelier right at IARE. Duplicates after correction
+ * are dropped.
+ */
+export const rankCandidates = (
+  candidates: RecognitionCandidate[],
+  entries: CorrectionEntry[]
+): RecognitionCandidate[] => {
+  const ranked = candidates
+    .map((candidate) => {
+      const { text, terms } = correctTranscript(candidate.text, entries);
+      return { text, confidence: candidate.confidence, score: candidate.confidence + terms * CAMPUS_TERM_BONUS };
+    })
+    .filter(({ text }) => text)
+    .sort((a, b) => b.score - a.score);
+
+  return ranked
+    .filter(({ text }, i) => ranked.findIndex((other) => other.text === text) === i)
+    .map(({ text, confidence }) => ({ text, confidence }));
+};
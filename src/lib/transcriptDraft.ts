@@ -0,0 +1,96 @@
+import { TranscriptSegment } from '@/hooks/useSpeechRecognition';
+
+/** One word of a voice transcript waiting to be sent */
+export interface DraftWord {
+  text: string;
+  /** Confidence of the segment the word came from, 0-1; 1 once the user has edited it */
+  confidence: number;
+  /** What the recognizer may have heard instead, most likely first */
+  alternatives: string[];
+}
+
+/** Final segments below this confidence are marked as possible misrecognitions */
+export const LOW_CONFIDENCE = 0.6;
+
+const splitWords = (text: string) => text.split(/\s+/).filter(Boolean);
+
+const sameWord = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Where two word lists differ: the length of their common start and of
+ * their common end, not counting words twice.
+ */
+const diffBounds = (a: string[], b: string[]) => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && sameWord(a[prefix], b[prefix])) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    sameWord(a[a.length - 1 - suffix], b[b.length - 1 - suffix])
+  ) suffix++;
+
+  return { prefix, suffix };
+};
+
+const addAlternative = (word: DraftWord, alternative: string) => {
+  if (sameWord(word.text, alternative)) return;
+  if (word.alternatives.some(a => sameWord(a, alternative))) return;
+  word.alternatives.push(alternative);
+};
+
+/**
+ * Split final transcript segments into words, giving each word the
+ * recognizer's alternatives for it. Alternatives are whole phrases, so
+ * they are lined up with the best hypothesis: where a phrase differs in
+ * the same number of words they are matched one to one, and where one
+ * word was heard as several ("ECE" / "E C E") the whole run is offered
+ * for that word. Differences that cannot be lined up are left out.
+ */
+export const toDraftWords = (segments: TranscriptSegment[]): DraftWord[] =>
+  segments.filter(s => s.isFinal).flatMap((segment) => {
+    const words: DraftWord[] = splitWords(segment.text).map(text => ({
+      text,
+      confidence: segment.confidence,
+      alternatives: [],
+    }));
+    const primary = words.map(w => w.text);
+
+    for (const alternative of segment.alternatives ?? []) {
+      const other = splitWords(alternative.text);
+      const { prefix, suffix } = diffBounds(primary, other);
+      const changed = primary.length - prefix - suffix;
+      const heard = other.slice(prefix, other.length - suffix);
+      if (!heard.length) continue;
+
+      if (changed === heard.length) {
+        heard.forEach((text, i) => addAlternative(words[prefix + i], text));
+      } else if (changed === 1) {
+        addAlternative(words[prefix], heard.join(' '));
+      }
+    }
+
+    return words;
+  });
+
+/**
+ * Rebuild the draft from freely edited text, keeping confidence and
+ * alternatives for the words at the start and end that did not change.
+ * Anything typed in between counts as certain.
+ */
+export const reconcileDraft = (previous: DraftWord[], text: string): DraftWord[] => {
+  const next = splitWords(text);
+  const { prefix, suffix } = diffBounds(previous.map(w => w.text), next);
+
+  return next.map((word, i) => {
+    const kept = i < prefix
+      ? previous[i]
+      : i >= next.length - suffix
+        ? previous[previous.length - (next.length - i)]
+        : null;
+    return kept && kept.text === word ? kept : { text: word, confidence: 1, alternatives: [] };
+  });
+};
+
+export const draftText = (words: DraftWord[]) => words.map(w => w.text).join(' ');
@@ -0,0 +1,125 @@
+export type VoiceCommand =
+  | 'repeat'
+  | 'stop'
+  | 'mute'
+  | 'unmute'
+  | 'clear'
+  | 'switch_to_text'
+  | 'read_last_question'
+  | 'louder'
+  | 'quieter'
+  | 'faster'
+  | 'slower'
+  | 'help';
+
+export interface VoiceCommandDefinition {
+  command: VoiceCommand;
+  /** What to say, as shown in the help card */
+  example: string;
+  description: string;
+  /** Matched against the whole normalized utterance */
+  pattern: RegExp;
+}
+
+/**
+ * Commands recognized in voice chat, in help-card order. Patterns must match
+ * the entire utterance, so questions that merely contain a command word
+ * ("when do exams stop?") still go to the assistant. English only.
+ */
+export const VOICE_COMMANDS: VoiceCommandDefinition[] = [
+  {
+    command: 'repeat',
+    example: 'Repeat that',
+    description: 'Read the last answer again',
+    pattern: /^(repeat( that| it| the (last )?answer)?|say (that|it) again|come again)$/,
+  },
+  {
+    command: 'stop',
+    example: 'Stop',
+    description: 'Stop reading the answer',
+    pattern: /^(stop( talking| speaking| reading)?|be quiet|quiet|silence|cancel)$/,
+  },
+  {
+    command: 'mute',
+    example: 'Mute',
+    description: 'Turn spoken answers off',
+    pattern: /^(mute|turn (off|of) (the )?(voice|sound|audio)|(voice|sound|audio) off)$/,
+  },
+  {
+    command: 'unmute',
+    example: 'Unmute',
+    description: 'Turn spoken answers back on',
+    pattern: /^(unmute|turn on (the )?(voice|sound|audio)|(voice|sound|audio) on)$/,
+  },
+  {
+    command: 'clear',
+    example: 'Clear conversation',
+    description: 'Delete the messages in this conversation',
+    pattern: /^(clear|delete|erase) (the |this )?(conversation|chat|history|messages)$/,
+  },
+  {
+    command: 'switch_to_text',
+    example: 'Switch to text chat',
+    description: 'Open text chat',
+    pattern: /^(switch|go|change) to (the )?(text|typing)( chat| mode)?$|^(open )?text chat$/,
+  },
+  {
+    command: 'read_last_question',
+    example: 'Read my last question',
+    description: 'Hear what you last asked',
+    pattern: /^(read|repeat|say) my (last |previous )?question$|^what did i (just )?ask$/,
+  },
+  {
+    command: 'louder',
+    example: 'Louder',
+    description: 'Raise the reading volume',
+    pattern: /^((speak |talk )?louder|volume up|increase (the )?volume)$/,
+  },
+  {
+    command: 'quieter',
+    example: 'Quieter',
+    description: 'Lower the reading volume',
+    pattern: /^((speak |talk )?(quieter|softer)|volume down|decrease (the )?volume)$/,
+  },
+  {
+    command: 'slower',
+    example: 'Slower',
+    description: 'Read more slowly',
+    pattern: /^((speak |talk |read )?(slower|more slowly)|slow down)$/,
+  },
+  {
+    command: 'faster',
+    example: 'Faster',
+    description: 'Read more quickly',
+    pattern: /^((speak |talk |read )?(faster|more quickly)|speed up)$/,
+  },
+  {
+    command: 'help',
+    example: 'What can I say?',
+    description: 'Show this list',
+    pattern: /^(help|voice commands|(show )?commands|what can i say)$/,
+  },
+];
+
+/**
+ * Lowercase, drop punctuation and polite padding ("please", "can you", ...)
+ * so "Could you please repeat that?" normalizes to "repeat that".
+ */
+const normalize = (transcript: string) =>
+  transcript
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s']/gu, ' ')
+    .replace(/\b(please|okay|ok|hey|assistant|now|just)\b/g, ' ')
+    .replace(/^\s*(can|could|would|will) you\b/, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * The command a final transcript asks for, or null when it is a question
+ * for the assistant.
+ */
+export const matchVoiceCommand = (transcript: string): VoiceCommand | null => {
+  const utterance = normalize(transcript);
+  if (!utterance) return null;
+  return VOICE_COMMANDS.find(({ pattern }) => pattern.test(utterance))?.command ?? null;
+};
@@ -0,0 +1,92 @@
+import { Layout } from '@/components/Layout';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { UsageTab } from '@/components/admin/UsageTab';
+import { UsersTab } from '@/components/admin/UsersTab';
+import { FaqTab } from '@/components/admin/FaqTab';
+import { KnowledgeTab } from '@/components/admin/KnowledgeTab';
+import { FeedbackTab } from '@/components/admin/FeedbackTab';
+import { VocabularyTab } from '@/components/admin/VocabularyTab';
+import { ShieldCheck, BarChart3, Users, HelpCircle, BookOpen, ThumbsDown, SpellCheck } from 'lucide-react';
+
+/**
+ * ADMIN CONSOLE
+ * =============
+ * Only reachable by users with profiles.role = 'admin' (see ProtectedRoute).
+ * Data access is enforced server-side by RLS policies and admin-only RPCs.
+ */
+const Admin = () => {
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-12">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <Badge variant="secondary" className="mb-4">
+            <ShieldCheck className="h-3 w-3 mr-1" />
+            Administration
+          </Badge>
+          <h1 className="text-4xl font-bold mb-4">Admin Console</h1>
+          <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
+            Monitor chat usage and answer feedback, manage users and roles, and curate the campus
+            knowledge, suggested questions and speech vocabulary the assistant relies on.
+          </p>
+        </div>
+
+        <Tabs defaultValue="usage" className="mb-12">
+          <TabsList className="grid w-full max-w-4xl mx-auto grid-cols-2 md:grid-cols-6 h-auto mb-8">
+            <TabsTrigger value="usage" className="flex items-center gap-2">
+              <BarChart3 className="h-4 w-4" />
+              Usage
+            </TabsTrigger>
+            <TabsTrigger value="users" className="flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              Users
+            </TabsTrigger>
+            <TabsTrigger value="feedback" className="flex items-center gap-2">
+              <ThumbsDown className="h-4 w-4" />
+              Feedback
+            </TabsTrigger>
+            <TabsTrigger value="knowledge" className="flex items-center gap-2">
+              <BookOpen className="h-4 w-4" />
+              Knowledge
+            </TabsTrigger>
+            <TabsTrigger value="faq" className="flex items-center gap-2">
+              <HelpCircle className="h-4 w-4" />
+              FAQ
+            </TabsTrigger>
+            <TabsTrigger value="vocabulary" className="flex items-center gap-2">
+              <SpellCheck className="h-4 w-4" />
+              Vocabulary
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="usage">
+            <UsageTab />
+          </TabsContent>
+
+          <TabsContent value="users">
+            <UsersTab />
+          </TabsContent>
+
+          <TabsContent value="feedback">
+            <FeedbackTab />
+          </TabsContent>
+
+          <TabsContent value="knowledge">
+            <KnowledgeTab />
+          </TabsContent>
+
+          <TabsContent value="faq">
+            <FaqTab />
+          </TabsContent>
+
+          <TabsContent value="vocabulary">
+            <VocabularyTab />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </Layout>
+  );
+};
+
+export default Admin;
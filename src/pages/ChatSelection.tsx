@@ -18,12 +18,12 @@ import {
 /**
  * CHAT SELECTION MODULE
  * =====================
- * This page allows users to choose between Text Chat and Voice Chat modes.
+ * This page allows users to choose between Text Chat, Voice Chat and Mixed Chat modes.
  * 
  * Features:
  * - Clear visual distinction between modes
  * - Feature highlights for each mode
- * - Quick access to either chat interface
+ * - Quick access to each chat interface
  */
 const ChatSelection = () => {
   const { user } = useAuth();
@@ -42,6 +42,13 @@ const ChatSelection = () => {
     { icon: CheckCircle2, text: 'Best for quick questions' }
   ];
 
+  const mixedFeatures = [
+    { icon: MessageSquare, text: 'Type and speak in one conversation' },
+    { icon: Mic, text: 'Dictate, then fix up before sending' },
+    { icon: Headphones, text: 'Spoken questions answered aloud' },
+    { icon: CheckCircle2, text: 'Best for switching as you go' }
+  ];
+
   return (
     <Layout>
       <div className="container mx-auto px-4 py-12">
@@ -50,12 +57,12 @@ const ChatSelection = () => {
           <h1 className="text-4xl font-bold mb-4">Choose Your Chat Mode</h1>
           <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
             Select how you'd like to interact with the IARE Campus Assistant.
-            Both modes provide the same intelligent AI responses.
+            Every mode provides the same intelligent AI responses.
           </p>
         </div>
 
         {/* Chat Mode Cards */}
-        <div className="grid md:grid-cols-2 gap-8 max-w-5xl mx-auto">
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8 max-w-6xl mx-auto">
           {/* Text Chat Card */}
           <Card className="relative overflow-hidden group hover:border-primary/50 transition-all duration-300">
             <div className="absolute top-0 right-0 w-32 h-32 bg-gradient-to-br from-primary/10 to-transparent rounded-bl-full" />
@@ -119,6 +126,38 @@ const ChatSelection = () => {
               </Button>
             </CardContent>
           </Card>
+
+          {/* Mixed Chat Card */}
+          <Card className="relative overflow-hidden group hover:border-primary/50 transition-all duration-300">
+            <div className="absolute top-0 right-0 w-32 h-32 bg-gradient-to-br from-primary/10 to-transparent rounded-bl-full" />
+            <CardHeader className="pb-4">
+              <div className="h-16 w-16 rounded-2xl bg-gradient-to-br from-primary to-primary/70 flex items-center justify-center mb-4 shadow-lg group-hover:scale-110 transition-transform duration-300">
+                <MessageSquare className="h-8 w-8 text-primary-foreground" />
+              </div>
+              <CardTitle className="text-2xl">Mixed Chat</CardTitle>
+              <CardDescription className="text-base">
+                Type some questions and speak others, all in the same conversation.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <ul className="space-y-3">
+                {mixedFeatures.map((feature, index) => (
+                  <li key={index} className="flex items-center gap-3 text-sm">
+                    <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                      <feature.icon className="h-4 w-4 text-primary" />
+                    </div>
+                    {feature.text}
+                  </li>
+                ))}
+              </ul>
+              <Button asChild size="lg" variant="outline" className="w-full group/btn">
+                <Link to="/mixed-chat">
+                  Start Mixed Chat
+                  <ArrowRight className="ml-2 h-4 w-4 group-hover/btn:translate-x-1 transition-transform" />
+                </Link>
+              </Button>
+            </CardContent>
+          </Card>
         </div>
 
         {/* Security Note */}
@@ -3,107 +3,159 @@ import { Layout } from '@/components/Layout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ChatMessage } from '@/components/ChatMessage';
+import { TypingIndicator } from '@/components/TypingIndicator';
+import { MessageActions } from '@/components/MessageActions';
 import { VoiceButton } from '@/components/VoiceButton';
+import { ConversationSidebar } from '@/components/ConversationSidebar';
+import { RateLimitNotice } from '@/components/RateLimitNotice';
+import { LanguageSelect } from '@/components/LanguageSelect';
+import { useChatSession } from '@/hooks/useChatSession';
+import { useMessageFeedback } from '@/hooks/useMessageFeedback';
 import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
+import { useServerTranscription } from '@/hooks/useServerTranscription';
+import { useCorrectedTranscript } from '@/hooks/useSpeechCorrections';
 import { useSpeechSynthesis } from '@/hooks/useSpeechSynthesis';
-import { useAuth } from '@/hooks/useAuth';
-import { supabase } from '@/integrations/supabase/client';
+import { useAudioDevices } from '@/hooks/useAudioDevices';
+import { useProfile } from '@/hooks/useProfile';
 import { useToast } from '@/hooks/use-toast';
-import { 
-  Send, 
-  Loader2, 
-  Volume2, 
-  VolumeX, 
-  Trash2, 
+import {
+  Send,
+  Loader2,
+  Volume2,
+  VolumeX,
+  Trash2,
   MessageSquare,
-  Mic
+  Mic,
+  Download,
+  PanelLeft,
+  Square
 } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
 
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  inputType: 'text' | 'voice';
-  timestamp: string;
-}
-
+/**
+ * MIXED CHAT MODULE
+ * =================
+ * One thread where questions can be typed or spoken, for users who switch
+ * between the keyboard and the microphone.
+ *
+ * Features:
+ * - Dictation fills the message box, so spoken questions can be fixed up
+ *   before sending; each question keeps whether it was typed or spoken
+ * - Spoken questions get spoken answers (unless muted); any answer can be
+ *   read aloud from its actions
+ * - Conversations, languages, streaming, stop/retry, paging, export and
+ *   clearing work as in Text Chat (see useChatSession)
+ *
+ * Security:
+ * - All API calls go through backend edge function
+ * - User authentication required
+ */
 const Chatbot = () => {
-  const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [isLoadingHistory, setIsLoadingHistory] = useState(true);
-  
-  const { user } = useAuth();
-  const { toast } = useToast();
+  // Whether the message box holds dictated text
+  const [isDictated, setIsDictated] = useState(false);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  // Text in the box when dictation started; speech is appended to it
+  const dictationBaseRef = useRef('');
   const viewportRef = useRef<HTMLDivElement>(null);
-  
-  const { 
-    transcript, 
-    isListening, 
-    error: speechError, 
-    startListening, 
-    stopListening, 
-    resetTranscript,
-    isSupported: speechRecognitionSupported 
-  } = useSpeechRecognition();
-  
-  const { 
-    speak, 
-    isMuted, 
-    toggleMute,
-    isSupported: speechSynthesisSupported 
-  } = useSpeechSynthesis();
 
-  // Load chat history on mount
-  useEffect(() => {
-    const loadChatHistory = async () => {
-      if (!user) return;
-      
-      try {
-        const { data, error } = await supabase
-          .from('chat_history')
-          .select('*')
-          .order('created_at', { ascending: true })
-          .limit(50);
-
-        if (error) throw error;
+  const { toast } = useToast();
+  const { reactions, loadFeedback, submitFeedback } = useMessageFeedback();
+  const {
+    messages,
+    isLoadingHistory,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    isSending: isLoading,
+    streamingMessageId,
+    send,
+    retry,
+    cancel,
+    clear: clearHistory,
+    exportHistory,
+    rateLimit,
+    secondsLeft,
+    conversations,
+    activeConversationId,
+    isLoadingConversations,
+    selectConversation: openConversation,
+    renameConversation,
+    archiveConversation,
+    deleteConversation,
+    language,
+    languageOverride,
+    profileLanguage,
+    setLanguageOverride
+  } = useChatSession('mixed', { onHistoryLoaded: loadFeedback });
 
-        if (data) {
-          const loadedMessages: Message[] = [];
-          data.forEach((chat) => {
-            loadedMessages.push({
-              id: `${chat.id}-user`,
-              role: 'user',
-              content: chat.user_query,
-              inputType: chat.input_type as 'text' | 'voice',
-              timestamp: new Date(chat.created_at).toLocaleTimeString()
-            });
-            loadedMessages.push({
-              id: `${chat.id}-assistant`,
-              role: 'assistant',
-              content: chat.ai_response,
-              inputType: 'text',
-              timestamp: new Date(chat.created_at).toLocaleTimeString()
-            });
-          });
-          setMessages(loadedMessages);
-        }
-      } catch (error) {
-        console.error('Error loading chat history:', error);
-      } finally {
-        setIsLoadingHistory(false);
+  const { profile } = useProfile();
+  const {
+    selectedInputDevice,
+    selectedOutputDevice,
+    hasPermission: hasAudioPermission,
+    requestPermission: requestAudioPermission
+  } = useAudioDevices({
+    onInputDeviceChange: ({ reason, device, previousLabel }) => {
+      if (reason === 'fallback' && isListening) {
+        stopListening();
+        startListening(device.deviceId);
       }
-    };
+      toast({
+        title: reason === 'fallback' ? 'Microphone disconnected' : 'Microphone reconnected',
+        description: reason === 'fallback'
+          ? `${previousLabel} was removed. Now using ${device.label}.`
+          : `Switched back to ${device.label}.`,
+      });
+    },
+  });
 
-    loadChatHistory();
-  }, [user]);
+  // Server transcription when preferred, or when the browser has no recognizer
+  const browserRecognition = useSpeechRecognition(language.locale);
+  const serverRecognition = useServerTranscription(language.locale);
+  const {
+    segments: recognizedSegments,
+    interimTranscript,
+    isListening,
+    isTranscribing,
+    error: speechError,
+    startListening,
+    stopListening,
+    resetTranscript,
+    isSupported: speechRecognitionSupported
+  } = profile?.preferences.speech_recognition === 'server' || !browserRecognition.isSupported
+    ? serverRecognition
+    : browserRecognition;
+  const { finalTranscript: transcript } = useCorrectedTranscript(recognizedSegments);
+
+  const {
+    speak,
+    cancel: cancelSpeech,
+    pause: pauseSpeech,
+    resume: resumeSpeech,
+    skipSentence,
+    isSpeaking,
+    isPaused,
+    currentSentence,
+    currentWord,
+    isMuted,
+    toggleMute,
+    isSupported: speechSynthesisSupported
+  } = useSpeechSynthesis(language.locale, selectedOutputDevice, profile?.preferences.tts);
+  const [speakingMessageId, setSpeakingMessageId] = useState<string | null>(null);
 
-  // Update input when transcript changes
+  // Show dictated text in the message box as it is recognized
   useEffect(() => {
-    if (transcript) {
-      setInput(transcript);
-    }
+    if (!transcript) return;
+    setInput([dictationBaseRef.current, transcript].filter(Boolean).join(' '));
+    setIsDictated(true);
   }, [transcript]);
 
   // Show speech recognition errors
@@ -117,244 +169,315 @@ const Chatbot = () => {
     }
   }, [speechError, toast]);
 
-  // Auto-scroll to bottom
+  // Auto-scroll to bottom as messages arrive, but not when earlier ones are loaded above
+  const lastMessage = messages[messages.length - 1];
   useEffect(() => {
     if (viewportRef.current) {
       viewportRef.current.scrollTop = viewportRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [lastMessage?.id, lastMessage?.content]);
 
-  const handleVoiceToggle = () => {
+  const handleVoiceToggle = async () => {
     if (isListening) {
       stopListening();
-    } else {
-      resetTranscript();
-      setInput('');
-      startListening();
+      return;
     }
-  };
-
-  const sendMessage = async (inputType: 'text' | 'voice') => {
-    if (!input.trim() || isLoading) return;
-
-    const userMessage = input.trim();
-    setInput('');
-    resetTranscript();
-    stopListening();
-
-    const tempUserMessage: Message = {
-      id: `temp-${Date.now()}`,
-      role: 'user',
-      content: userMessage,
-      inputType,
-      timestamp: new Date().toLocaleTimeString()
-    };
-
-    setMessages(prev => [...prev, tempUserMessage]);
-    setIsLoading(true);
 
-    try {
-      const { data, error } = await supabase.functions.invoke('chat-grok', {
-        body: { 
-          message: userMessage,
-          conversationHistory: messages.slice(-10).map(m => ({
-            role: m.role,
-            content: m.content
-          }))
-        }
+    if (!hasAudioPermission && !(await requestAudioPermission())) {
+      toast({
+        title: 'Microphone Access Required',
+        description: 'Please allow microphone access to speak your question.',
+        variant: 'destructive'
       });
+      return;
+    }
 
-      if (error) throw error;
+    // Never transcribe the reply that is still playing
+    cancelSpeech();
+    resetTranscript();
+    dictationBaseRef.current = input.trim();
+    startListening(selectedInputDevice || undefined);
+  };
 
-      const aiResponse = data.response || 'I apologize, but I was unable to generate a response. Please try again.';
+  const handleSpeak = (messageId: string, content: string) => {
+    if (speakingMessageId === messageId && isSpeaking) {
+      cancelSpeech();
+      setSpeakingMessageId(null);
+    } else {
+      speak(content);
+      setSpeakingMessageId(messageId);
+    }
+  };
 
-      // Save to database
-      await supabase.from('chat_history').insert({
-        user_id: user?.id,
-        user_query: userMessage,
-        ai_response: aiResponse,
-        input_type: inputType
-      });
+  const sendMessage = async () => {
+    if (!input.trim() || isLoading || rateLimit) return;
 
-      const assistantMessage: Message = {
-        id: `assistant-${Date.now()}`,
-        role: 'assistant',
-        content: aiResponse,
-        inputType: 'text',
-        timestamp: new Date().toLocaleTimeString()
-      };
+    const userMessage = input;
+    const inputType = isDictated ? 'voice' : 'text';
+    setInput('');
+    setIsDictated(false);
+    stopListening();
+    resetTranscript();
 
-      setMessages(prev => [...prev, assistantMessage]);
+    const result = await send(userMessage, { inputType });
+    if (!result) return;
 
-      // Speak the response if not muted
-      if (!isMuted && speechSynthesisSupported) {
-        speak(aiResponse);
+    if (result.ok === false) {
+      // Rate limited questions are not kept in the thread; give the text back
+      if (result.error.kind === 'rate_limited') {
+        setInput(userMessage.trim());
+        setIsDictated(inputType === 'voice');
       }
-    } catch (error: any) {
-      console.error('Error sending message:', error);
-      
-      let errorMessage = 'Failed to get a response. Please try again.';
-      if (error.message?.includes('429')) {
-        errorMessage = 'Too many requests. Please wait a moment and try again.';
-      } else if (error.message?.includes('402')) {
-        errorMessage = 'Service temporarily unavailable. Please try again later.';
-      }
-      
-      toast({
-        title: 'Error',
-        description: errorMessage,
-        variant: 'destructive'
-      });
-    } finally {
-      setIsLoading(false);
+      return;
+    }
+
+    // Answer in kind: spoken questions are answered aloud
+    if (inputType === 'voice' && !isMuted && speechSynthesisSupported) {
+      speak(result.response);
+      setSpeakingMessageId(result.assistantMessageId);
     }
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const inputType = transcript ? 'voice' : 'text';
-    sendMessage(inputType);
+    sendMessage();
   };
 
-  const clearHistory = async () => {
-    if (!user) return;
-
-    try {
-      const { error } = await supabase
-        .from('chat_history')
-        .delete()
-        .eq('user_id', user.id);
-
-      if (error) throw error;
-
-      setMessages([]);
-      toast({
-        title: 'Chat Cleared',
-        description: 'Your chat history has been cleared.'
-      });
-    } catch (error) {
-      toast({
-        title: 'Error',
-        description: 'Failed to clear chat history.',
-        variant: 'destructive'
-      });
-    }
+  const selectConversation = (id: string | null) => {
+    if (openConversation(id)) setIsSidebarOpen(false);
   };
 
+  const conversationSidebar = (
+    <ConversationSidebar
+      conversations={conversations}
+      activeConversationId={activeConversationId}
+      isLoading={isLoadingConversations}
+      onSelect={selectConversation}
+      onNew={() => selectConversation(null)}
+      onRename={renameConversation}
+      onArchive={archiveConversation}
+      onDelete={deleteConversation}
+    />
+  );
+
   return (
     <Layout>
-      <div className="container mx-auto px-4 py-6 h-[calc(100vh-180px)] flex flex-col">
-        {/* Header */}
-        <div className="flex items-center justify-between mb-4">
-          <div className="flex items-center gap-3">
-            <div className="h-10 w-10 rounded-full bg-primary flex items-center justify-center">
-              <MessageSquare className="h-5 w-5 text-primary-foreground" />
-            </div>
-            <div>
-              <h1 className="text-xl font-semibold">IARE Campus Assistant</h1>
-              <p className="text-sm text-muted-foreground">Powered by Grok AI</p>
-            </div>
-          </div>
-          <div className="flex items-center gap-2">
-            {speechSynthesisSupported && (
-              <Button 
-                variant="outline" 
-                size="icon"
-                onClick={toggleMute}
-                className="flex-shrink-0"
-              >
-                {isMuted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
-              </Button>
-            )}
-            <Button 
-              variant="outline" 
-              size="icon"
-              onClick={clearHistory}
-              disabled={messages.length === 0}
-              className="flex-shrink-0"
-            >
-              <Trash2 className="h-4 w-4" />
-            </Button>
-          </div>
-        </div>
+      <div className="container mx-auto px-4 py-6 h-[calc(100vh-180px)] flex gap-4">
+        {/* Conversations */}
+        <Card className="hidden md:flex w-64 flex-shrink-0 overflow-hidden">
+          {conversationSidebar}
+        </Card>
 
-        {/* Chat Area */}
-        <div className="flex-1 rounded-xl border border-border bg-card overflow-hidden flex flex-col">
-          <ScrollArea className="flex-1 p-4" viewportRef={viewportRef}>
-            {isLoadingHistory ? (
-              <div className="flex items-center justify-center h-full">
-                <Loader2 className="h-6 w-6 animate-spin text-primary" />
-              </div>
-            ) : messages.length === 0 ? (
-              <div className="flex flex-col items-center justify-center h-full text-center p-8">
-                <div className="h-16 w-16 rounded-full bg-primary/10 flex items-center justify-center mb-4">
-                  <MessageSquare className="h-8 w-8 text-primary" />
+        <div className="flex-1 flex flex-col min-w-0">
+          {/* Header */}
+          <Card className="mb-4 border-primary/20 animate-fade-in">
+            <CardHeader className="py-4">
+              <div className="flex items-center justify-between flex-wrap gap-4">
+                <div className="flex items-center gap-3">
+                  <Sheet open={isSidebarOpen} onOpenChange={setIsSidebarOpen}>
+                    <SheetTrigger asChild>
+                      <Button variant="outline" size="icon" className="md:hidden">
+                        <PanelLeft className="h-4 w-4" />
+                      </Button>
+                    </SheetTrigger>
+                    <SheetContent side="left" className="p-0 w-72">
+                      {conversationSidebar}
+                    </SheetContent>
+                  </Sheet>
+                  <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-primary to-primary/70 flex items-center justify-center shadow-lg">
+                    <MessageSquare className="h-6 w-6 text-primary-foreground" />
+                  </div>
+                  <div>
+                    <CardTitle className="text-xl">Mixed Chat</CardTitle>
+                    <p className="text-sm text-muted-foreground">Type or speak your questions about IARE</p>
+                  </div>
                 </div>
-                <h2 className="text-xl font-semibold mb-2">Welcome to IARE Assistant!</h2>
-                <p className="text-muted-foreground max-w-md">
-                  Ask me about admissions, courses, placements, campus facilities, or any IARE-related questions.
-                </p>
-                <div className="flex items-center gap-2 mt-4 text-sm text-muted-foreground">
-                  <Mic className="h-4 w-4" />
-                  <span>Click the microphone to use voice input</span>
+                <div className="flex items-center gap-2">
+                  <LanguageSelect
+                    value={languageOverride}
+                    profileLanguage={profileLanguage}
+                    onChange={setLanguageOverride}
+                    disabled={isLoading || isListening}
+                  />
+                  {speechSynthesisSupported && (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant={isMuted ? 'outline' : 'secondary'}
+                          size="icon"
+                          onClick={toggleMute}
+                        >
+                          {isMuted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>{isMuted ? 'Answer spoken questions aloud' : 'Mute spoken answers'}</TooltipContent>
+                    </Tooltip>
+                  )}
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={exportHistory}
+                        disabled={messages.length === 0}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Export chat</TooltipContent>
+                  </Tooltip>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={clearHistory}
+                        disabled={messages.length === 0}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Clear history</TooltipContent>
+                  </Tooltip>
                 </div>
               </div>
-            ) : (
-              <div className="space-y-2">
-                {messages.map((message) => (
-                  <ChatMessage
-                    key={message.id}
-                    role={message.role}
-                    content={message.content}
-                    inputType={message.inputType}
-                    timestamp={message.timestamp}
-                  />
-                ))}
-                {isLoading && (
-                  <div className="flex gap-3 p-4">
-                    <div className="h-8 w-8 rounded-full bg-primary flex items-center justify-center">
-                      <Loader2 className="h-4 w-4 animate-spin text-primary-foreground" />
+            </CardHeader>
+          </Card>
+
+          {/* Chat Area */}
+          <Card className="flex-1 flex flex-col overflow-hidden">
+            <ScrollArea className="flex-1 p-4" viewportRef={viewportRef}>
+              {isLoadingHistory ? (
+                <div className="flex items-center justify-center h-full">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : messages.length === 0 ? (
+                <div className="flex flex-col items-center justify-center h-full text-center p-8 animate-fade-in">
+                  <div className="h-20 w-20 rounded-2xl bg-gradient-to-br from-primary/20 to-primary/5 flex items-center justify-center mb-6">
+                    <MessageSquare className="h-10 w-10 text-primary" />
+                  </div>
+                  <h2 className="text-2xl font-bold mb-3">Welcome to Mixed Chat!</h2>
+                  <p className="text-muted-foreground max-w-md">
+                    Ask about admissions, courses, placements, campus facilities, or any IARE-related questions.
+                  </p>
+                  <div className="flex items-center gap-2 mt-4 text-sm text-muted-foreground">
+                    <Mic className="h-4 w-4" />
+                    <span>Type below, or click the microphone and speak</span>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  {hasMore && (
+                    <div className="flex justify-center pb-2">
+                      <Button variant="ghost" size="sm" onClick={loadMore} disabled={isLoadingMore}>
+                        {isLoadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Load earlier messages
+                      </Button>
                     </div>
-                    <div className="px-4 py-3 rounded-2xl bg-card border border-border">
-                      <span className="text-sm text-muted-foreground">Thinking...</span>
+                  )}
+                  {messages.map((message) => {
+                    // Feedback is kept per stored turn, on the answer
+                    const chatId = message.role === 'assistant' ? message.chatId : null;
+                    const isReading = speakingMessageId === message.id && isSpeaking;
+                    return (
+                      <div key={message.id} className="group animate-fade-in">
+                        <ChatMessage
+                          role={message.role}
+                          content={message.content}
+                          inputType={message.inputType}
+                          timestamp={message.timestamp}
+                          spokenSentence={isReading ? currentSentence : null}
+                          spokenWord={isReading ? currentWord : null}
+                          audioPaths={message.audioPaths}
+                          error={message.error}
+                          onRetry={() => retry(message.id)}
+                        />
+                        <div className="flex justify-end -mt-2 mb-2">
+                          <MessageActions
+                            content={message.content}
+                            messageId={message.id}
+                            isAssistant={message.role === 'assistant'}
+                            className={isReading ? 'opacity-100' : undefined}
+                            onSpeak={message.role === 'assistant' ? () => handleSpeak(message.id, message.content) : undefined}
+                            isSpeaking={isReading}
+                            isPaused={isPaused}
+                            onPauseResume={isPaused ? resumeSpeech : pauseSpeech}
+                            onSkipSentence={skipSentence}
+                            reaction={chatId ? reactions[chatId] : null}
+                            onReaction={chatId ? (reaction, reason) => submitFeedback(chatId, reaction, reason) : undefined}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {isLoading && !streamingMessageId && (
+                    <div className="flex gap-3 p-4 animate-fade-in">
+                      <div className="h-10 w-10 rounded-xl bg-gradient-to-br from-primary to-primary/70 flex items-center justify-center">
+                        <Loader2 className="h-5 w-5 animate-spin text-primary-foreground" />
+                      </div>
+                      <div className="px-4 py-3 rounded-2xl bg-muted/50 border border-border">
+                        <TypingIndicator />
+                      </div>
                     </div>
-                  </div>
-                )}
-              </div>
-            )}
-          </ScrollArea>
+                  )}
+                </div>
+              )}
+            </ScrollArea>
 
-          {/* Input Area */}
-          <div className="border-t border-border p-4 bg-background">
-            {isListening && (
-              <div className="mb-3 flex items-center gap-2 text-sm text-primary animate-pulse">
-                <div className="h-2 w-2 rounded-full bg-destructive animate-pulse" />
-                <span>Listening... Speak now</span>
-              </div>
-            )}
-            <form onSubmit={handleSubmit} className="flex gap-3">
-              <VoiceButton
-                isListening={isListening}
-                isSupported={speechRecognitionSupported}
-                onClick={handleVoiceToggle}
-                disabled={isLoading}
-              />
-              <Input
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                placeholder="Type your message or use voice..."
-                disabled={isLoading}
-                className="flex-1"
-              />
-              <Button type="submit" disabled={!input.trim() || isLoading}>
+            {/* Input Area */}
+            <CardContent className="border-t border-border p-4">
+              {rateLimit && (
+                <RateLimitNotice rateLimit={rateLimit} secondsLeft={secondsLeft} className="mb-3" />
+              )}
+              {(isListening || isTranscribing) && (
+                <div className="mb-3 flex items-center gap-2 text-sm text-primary animate-pulse">
+                  <div className="h-2 w-2 rounded-full bg-destructive animate-pulse" />
+                  <span>
+                    {isTranscribing ? 'Transcribing...' : interimTranscript || 'Listening... Speak now'}
+                  </span>
+                </div>
+              )}
+              <form onSubmit={handleSubmit} className="flex gap-3">
+                <VoiceButton
+                  isListening={isListening}
+                  isSupported={speechRecognitionSupported}
+                  onClick={handleVoiceToggle}
+                  disabled={isLoading || isTranscribing}
+                />
+                <Input
+                  value={input}
+                  onChange={(e) => {
+                    setInput(e.target.value);
+                    if (!e.target.value.trim()) setIsDictated(false);
+                  }}
+                  placeholder="Type your message or use voice..."
+                  disabled={isLoading}
+                  className="flex-1 transition-all focus:ring-2 focus:ring-primary/20"
+                  maxLength={1000}
+                />
                 {isLoading ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={cancel}
+                    className="px-6"
+                  >
+                    <Square className="h-4 w-4 mr-2" />
+                    Stop
+                  </Button>
                 ) : (
-                  <Send className="h-4 w-4" />
+                  <Button
+                    type="submit"
+                    disabled={!input.trim() || !!rateLimit || isTranscribing}
+                    className="px-6 hover:scale-105 transition-transform"
+                  >
+                    <Send className="h-4 w-4 mr-2" />
+                    Send
+                  </Button>
                 )}
-              </Button>
-            </form>
-          </div>
+              </form>
+            </CardContent>
+          </Card>
         </div>
       </div>
     </Layout>
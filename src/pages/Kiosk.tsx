@@ -0,0 +1,397 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { WaveformAnimation } from '@/components/WaveformAnimation';
+import { LanguageSelect } from '@/components/LanguageSelect';
+import { RateLimitNotice } from '@/components/RateLimitNotice';
+import { SpokenText } from '@/components/ChatMessage';
+import { KioskAdminDialog } from '@/components/KioskAdminDialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useRole } from '@/hooks/useRole';
+import { useProfile } from '@/hooks/useProfile';
+import { useAudioDevices } from '@/hooks/useAudioDevices';
+import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
+import { useServerTranscription } from '@/hooks/useServerTranscription';
+import { useCorrectedTranscript } from '@/hooks/useSpeechCorrections';
+import { useSpeechSynthesis } from '@/hooks/useSpeechSynthesis';
+import { useVoiceActivity, useVoiceActivitySettings } from '@/hooks/useVoiceActivity';
+import { useBargeIn } from '@/hooks/useBargeIn';
+import { useIdleTimer } from '@/hooks/useIdleTimer';
+import { useChatSession } from '@/hooks/useChatSession';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Mic, Square, Plane, Monitor } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+/** Visitors who walk away are forgotten after this long without any interaction */
+const KIOSK_IDLE_MS = 60_000;
+/** The "still there?" warning shows for the last seconds before a reset */
+const IDLE_WARNING_SECONDS = 10;
+/** Time to wait after listening stops for trailing final results before sending */
+const FINAL_RESULT_SETTLE_MS = 500;
+/** Hidden exit gesture: this many taps on the top-left corner within the window */
+const EXIT_TAPS = 5;
+const EXIT_TAP_WINDOW_MS = 3000;
+
+/**
+ * One visitor session at the booth. Mounted only for signed-in kiosk
+ * (or previewing admin) accounts so the microphone hooks never run otherwise.
+ */
+const KioskSession = ({ email, onExit }: { email: string; onExit: () => void }) => {
+  const [isStarted, setIsStarted] = useState(false);
+  const [isAdminOpen, setIsAdminOpen] = useState(false);
+  const autoSendTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const exitTapsRef = useRef<number[]>([]);
+
+  const { toast } = useToast();
+  const { profile } = useProfile();
+  // Each visitor gets a new thread; the kiosk account never reopens old ones
+  const {
+    messages,
+    isSending: isLoading,
+    send,
+    reset,
+    rateLimit,
+    secondsLeft: rateLimitSecondsLeft,
+    language,
+    languageOverride,
+    profileLanguage,
+    setLanguageOverride
+  } = useChatSession('voice', { ephemeral: true });
+  const {
+    selectedInputDevice,
+    selectedOutputDevice,
+    hasPermission: hasAudioPermission,
+    requestPermission: requestAudioPermission
+  } = useAudioDevices({
+    onInputDeviceChange: ({ reason, device }) => {
+      if (reason === 'fallback' && isListening) {
+        stopListening();
+        startListening(device.deviceId);
+      }
+      toast({
+        title: reason === 'fallback' ? 'Microphone disconnected' : 'Microphone reconnected',
+        description: `Using ${device.label}.`,
+      });
+    },
+  });
+
+  const browserRecognition = useSpeechRecognition(language.locale);
+  const serverRecognition = useServerTranscription(language.locale);
+  const {
+    segments: recognizedSegments,
+    interimTranscript,
+    isListening,
+    isTranscribing,
+    error: speechError,
+    mediaStream,
+    startListening,
+    stopListening,
+    resetTranscript
+  } = profile?.preferences.speech_recognition === 'server' || !browserRecognition.isSupported
+    ? serverRecognition
+    : browserRecognition;
+  const { finalTranscript: transcript } = useCorrectedTranscript(recognizedSegments);
+
+  const {
+    speak,
+    cancel: cancelSpeech,
+    isSpeaking,
+    currentSentence,
+    currentWord
+  } = useSpeechSynthesis(language.locale, selectedOutputDevice, profile?.preferences.tts);
+
+  // Kiosk questions always send themselves once the visitor stops talking
+  const { settings: vadSettings } = useVoiceActivitySettings();
+  const { levels: micLevels } = useVoiceActivity(isListening ? mediaStream : null, {
+    ...vadSettings,
+    onEndOfUtterance: stopListening,
+  });
+
+  const listen = () => {
+    cancelSpeech();
+    resetTranscript();
+    startListening(selectedInputDevice || undefined);
+  };
+
+  useBargeIn({
+    enabled: isStarted && vadSettings.bargeIn && hasAudioPermission && !isListening,
+    isSpeaking,
+    deviceId: selectedInputDevice,
+    onBargeIn: listen,
+  });
+
+  const resetSession = () => {
+    if (autoSendTimeoutRef.current) clearTimeout(autoSendTimeoutRef.current);
+    cancelSpeech();
+    stopListening();
+    resetTranscript();
+    // Replies still on their way to the previous visitor are dropped
+    reset();
+    setLanguageOverride(null);
+    setIsStarted(false);
+  };
+
+  const { secondsLeft: idleSecondsLeft } = useIdleTimer({
+    timeout: KIOSK_IDLE_MS,
+    paused: !isStarted || isListening || isTranscribing || isLoading || isSpeaking || isAdminOpen,
+    onIdle: resetSession,
+  });
+
+  const sendMessage = async (question: string) => {
+    if (!question || isLoading || rateLimit) return;
+
+    resetTranscript();
+    stopListening();
+
+    const result = await send(question, { inputType: 'voice' });
+    if (result?.ok) speak(result.response);
+  };
+
+  // The auto-send timer must call the latest sendMessage, which closes over this render's messages
+  const sendMessageRef = useRef(sendMessage);
+  sendMessageRef.current = sendMessage;
+
+  // Send once listening has stopped, leaving time for the last final results to arrive
+  useEffect(() => {
+    if (!transcript || isListening) return;
+
+    if (autoSendTimeoutRef.current) clearTimeout(autoSendTimeoutRef.current);
+    autoSendTimeoutRef.current = setTimeout(() => sendMessageRef.current(transcript.trim()), FINAL_RESULT_SETTLE_MS);
+  }, [transcript, isListening]);
+
+  useEffect(() => () => {
+    if (autoSendTimeoutRef.current) clearTimeout(autoSendTimeoutRef.current);
+  }, []);
+
+  useEffect(() => {
+    if (speechError) {
+      toast({
+        title: 'Voice Recognition Error',
+        description: speechError,
+        variant: 'destructive'
+      });
+    }
+  }, [speechError, toast]);
+
+  const start = async () => {
+    // Full screen needs a user gesture, so it is requested from the start tap
+    document.documentElement.requestFullscreen?.().catch(() => {});
+
+    if (!hasAudioPermission && !(await requestAudioPermission())) {
+      toast({
+        title: 'Microphone Access Required',
+        description: 'Ask staff to allow microphone access for this kiosk.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setIsStarted(true);
+    listen();
+  };
+
+  const handleExitTap = () => {
+    const now = Date.now();
+    exitTapsRef.current = [...exitTapsRef.current.filter(t => now - t < EXIT_TAP_WINDOW_MS), now];
+    if (exitTapsRef.current.length >= EXIT_TAPS) {
+      exitTapsRef.current = [];
+      cancelSpeech();
+      stopListening();
+      setIsAdminOpen(true);
+    }
+  };
+
+  // Captions show the latest question and its answer
+  const latestQuestion = [...messages].reverse().find(m => m.role === 'user');
+  const latestAnswer = latestQuestion && messages[messages.indexOf(latestQuestion) + 1];
+  const liveTranscript = [transcript, interimTranscript].filter(Boolean).join(' ');
+
+  return (
+    <div className="relative min-h-screen flex flex-col bg-background select-none">
+      {/* Hidden staff gesture: tap the top-left corner five times quickly */}
+      <button
+        type="button"
+        tabIndex={-1}
+        aria-hidden="true"
+        onClick={handleExitTap}
+        className="absolute top-0 left-0 h-16 w-16 z-50 opacity-0 cursor-default"
+      />
+
+      <header className="flex items-center justify-between gap-4 px-8 py-6 border-b border-border">
+        <div className="flex items-center gap-3">
+          <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-primary to-primary/70 flex items-center justify-center">
+            <Plane className="h-6 w-6 text-primary-foreground" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold">IARE Campus Assistant</h1>
+            <p className="text-muted-foreground">Ask me anything about IARE</p>
+          </div>
+        </div>
+        <LanguageSelect
+          value={languageOverride}
+          profileLanguage={profileLanguage}
+          onChange={setLanguageOverride}
+          disabled={isLoading || isListening}
+        />
+      </header>
+
+      <main className="flex-1 flex flex-col items-center justify-center gap-10 px-8 py-10 text-center">
+        {!isStarted ? (
+          <button
+            type="button"
+            onClick={start}
+            className="flex flex-col items-center gap-8 focus:outline-none"
+          >
+            <span className="h-48 w-48 rounded-full bg-primary flex items-center justify-center shadow-2xl animate-pulse">
+              <Mic className="h-24 w-24 text-primary-foreground" />
+            </span>
+            <span className="text-4xl font-semibold">Tap to ask a question</span>
+            <span className="text-xl text-muted-foreground">Admissions, fees, courses, placements, campus life</span>
+          </button>
+        ) : (
+          <>
+            {/* Captions: the live transcript while listening, otherwise the latest exchange */}
+            <div className="w-full max-w-5xl space-y-6">
+              {isListening || isTranscribing ? (
+                <p className="text-4xl leading-snug text-muted-foreground italic min-h-[3rem]">
+                  {isTranscribing ? 'Transcribing...' : liveTranscript || 'Listening...'}
+                </p>
+              ) : latestQuestion ? (
+                <>
+                  <p className="text-2xl text-muted-foreground">{latestQuestion.content}</p>
+                  {latestQuestion.error ? (
+                    <p className="text-3xl text-destructive">Sorry, something went wrong. Please ask your question again.</p>
+                  ) : latestAnswer?.content ? (
+                    <p className="text-3xl md:text-4xl leading-snug whitespace-pre-wrap text-left">
+                      {isSpeaking && currentSentence ? (
+                        <SpokenText content={latestAnswer.content} sentence={currentSentence} word={currentWord} />
+                      ) : (
+                        latestAnswer.content
+                      )}
+                    </p>
+                  ) : (
+                    <Loader2 className="h-12 w-12 animate-spin text-primary mx-auto" />
+                  )}
+                </>
+              ) : (
+                <p className="text-4xl text-muted-foreground">Tap the microphone and ask your question</p>
+              )}
+            </div>
+
+            {rateLimit && (
+              <RateLimitNotice rateLimit={rateLimit} secondsLeft={rateLimitSecondsLeft} className="max-w-xl text-left" />
+            )}
+
+            <div className="flex flex-col items-center gap-4">
+              {isListening && <WaveformAnimation isActive={isListening} levels={micLevels} barCount={24} />}
+              <Button
+                size="lg"
+                onClick={isListening ? stopListening : listen}
+                disabled={isLoading || isTranscribing || !!rateLimit}
+                className={cn(
+                  'h-32 w-32 rounded-full shadow-2xl',
+                  isListening && 'bg-destructive hover:bg-destructive/90'
+                )}
+                aria-label={isListening ? 'Stop listening' : 'Ask a question'}
+              >
+                {isListening ? <Square className="!h-12 !w-12" /> : <Mic className="!h-14 !w-14" />}
+              </Button>
+              <p className="text-xl text-muted-foreground">
+                {isListening ? 'Listening... stop talking to send' : 'Tap to ask another question'}
+              </p>
+            </div>
+          </>
+        )}
+      </main>
+
+      {isStarted && idleSecondsLeft <= IDLE_WARNING_SECONDS && (
+        <div className="absolute inset-x-0 bottom-0 bg-primary text-primary-foreground py-6 text-center text-2xl">
+          Still there? Starting over in {idleSecondsLeft}s. Tap anywhere to continue.
+        </div>
+      )}
+
+      <KioskAdminDialog
+        open={isAdminOpen}
+        onOpenChange={setIsAdminOpen}
+        email={email}
+        onExit={onExit}
+      />
+    </div>
+  );
+};
+
+/**
+ * KIOSK PAGE
+ * ==========
+ * Full-screen, voice-first chat for the campus hardware booth.
+ *
+ * - Runs under a shared kiosk account (profiles.role = 'kiosk') with its own
+ *   chat limits; that account is kept out of profile, history and admin pages
+ * - Large captions of the visitor's question and the reply being read aloud
+ * - The conversation resets after a minute without interaction
+ * - Staff leave or configure audio by tapping the top-left corner five times
+ *   and entering the kiosk account's password
+ *
+ * Admins may open /kiosk with their own account to preview it.
+ */
+const Kiosk = () => {
+  const { user, loading, signOut } = useAuth();
+  const { role, loading: roleLoading } = useRole();
+  const navigate = useNavigate();
+
+  // Only before the first role is known: a running session must not be unmounted
+  if (loading || (user && roleLoading && !role)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (user && (role === 'kiosk' || role === 'admin')) {
+    const exit = async () => {
+      if (document.fullscreenElement) await document.exitFullscreen().catch(() => {});
+      if (role === 'admin') {
+        navigate('/admin');
+      } else {
+        await signOut();
+        navigate('/signin');
+      }
+    };
+
+    return <KioskSession email={user.email ?? ''} onExit={exit} />;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Monitor className="h-5 w-5" />
+            Kiosk setup
+          </CardTitle>
+          <CardDescription>
+            {user
+              ? 'This device is signed in with a personal account. Kiosk mode needs an account with the Kiosk role.'
+              : 'Sign in with the kiosk account to start kiosk mode on this device.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm text-muted-foreground">
+          <p>An administrator can give any account the Kiosk role under Admin &gt; Users.</p>
+          {user ? (
+            <Button className="w-full" onClick={() => signOut()}>
+              Sign out
+            </Button>
+          ) : (
+            <Button asChild className="w-full">
+              <Link to="/signin">Sign in</Link>
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Kiosk;
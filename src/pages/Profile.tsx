@@ -130,6 +130,9 @@ const Profile = () => {
                       theme: profile.preferences.theme,
                       language: profile.preferences.language,
                       voice_enabled: profile.preferences.voice_enabled,
+                      speech_recognition: profile.preferences.speech_recognition,
+                      tts: profile.preferences.tts,
+                      voice_clips: profile.preferences.voice_clips,
                     }}
                     onUpdate={async (prefs) => {
                       await updatePreferences(prefs);
@@ -6,10 +6,14 @@ import { Input } from '@/components/ui/input';
 import { ChatMessage } from '@/components/ChatMessage';
 import { TypingIndicator } from '@/components/TypingIndicator';
 import { MessageActions } from '@/components/MessageActions';
-import { useAuth } from '@/hooks/useAuth';
+import { useChatSession } from '@/hooks/useChatSession';
+import { useMessageFeedback } from '@/hooks/useMessageFeedback';
+import { ConversationSidebar } from '@/components/ConversationSidebar';
 import { useSpeechSynthesis } from '@/hooks/useSpeechSynthesis';
-import { supabase } from '@/integrations/supabase/client';
-import { useToast } from '@/hooks/use-toast';
+import { useAudioDevices } from '@/hooks/useAudioDevices';
+import { useProfile } from '@/hooks/useProfile';
+import { RateLimitNotice } from '@/components/RateLimitNotice';
+import { LanguageSelect } from '@/components/LanguageSelect';
 import { 
   Send, 
   Loader2, 
@@ -19,9 +23,12 @@ import {
   X,
   Keyboard,
   Download,
-  Sparkles
+  Sparkles,
+  PanelLeft,
+  Square
 } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import {
   Tooltip,
@@ -29,14 +36,6 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  inputType: 'text' | 'voice';
-  timestamp: string;
-}
-
 /**
  * TEXT CHAT MODULE
  * ================
@@ -46,7 +45,9 @@ interface Message {
  * - Type-based interaction with input field and send button
  * - Chat bubbles with timestamps and reactions
  * - Typing indicator animation
- * - Full text chat history stored in database
+ * - Streaming responses rendered token-by-token
+ * - Full text chat history stored in database, loaded a page at a time
+ * - Stop a reply mid-way; failed questions can be retried
  * - Search functionality within chat history
  * - Export chat history
  * - Clear history option
@@ -57,19 +58,59 @@ interface Message {
  * - Input validation and sanitization
  */
 const TextChat = () => {
-  const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [isLoadingHistory, setIsLoadingHistory] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearching, setIsSearching] = useState(false);
   
-  const { user } = useAuth();
-  const { toast } = useToast();
+  const { reactions, loadFeedback, submitFeedback } = useMessageFeedback();
+  const {
+    messages,
+    isLoadingHistory,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    isSending: isLoading,
+    streamingMessageId,
+    send,
+    retry,
+    cancel,
+    clear: clearHistory,
+    exportHistory,
+    rateLimit,
+    secondsLeft,
+    conversations,
+    activeConversationId,
+    isLoadingConversations,
+    selectConversation: openConversation,
+    renameConversation,
+    archiveConversation,
+    deleteConversation,
+    language,
+    languageOverride,
+    profileLanguage,
+    setLanguageOverride
+  } = useChatSession('text', { onHistoryLoaded: loadFeedback });
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const location = useLocation();
   const viewportRef = useRef<HTMLDivElement>(null);
   
-  const { speak, cancel: cancelSpeech, isSpeaking } = useSpeechSynthesis();
+  const { profile } = useProfile();
+  const { selectedOutputDevice } = useAudioDevices();
+  const {
+    speak,
+    cancel: cancelSpeech,
+    pause: pauseSpeech,
+    resume: resumeSpeech,
+    skipSentence,
+    isSpeaking,
+    isPaused,
+    currentSentence,
+    currentWord,
+  } = useSpeechSynthesis(
+    language.locale,
+    selectedOutputDevice,
+    profile?.preferences.tts
+  );
   const [speakingMessageId, setSpeakingMessageId] = useState<string | null>(null);
 
   // Handle prefilled query from search
@@ -82,57 +123,13 @@ const TextChat = () => {
     }
   }, [location.state]);
 
-  // Load chat history on mount - filters only text messages
-  useEffect(() => {
-    const loadChatHistory = async () => {
-      if (!user) return;
-      
-      try {
-        const { data, error } = await supabase
-          .from('chat_history')
-          .select('*')
-          .eq('input_type', 'text')
-          .order('created_at', { ascending: true })
-          .limit(50);
-
-        if (error) throw error;
-
-        if (data) {
-          const loadedMessages: Message[] = [];
-          data.forEach((chat) => {
-            loadedMessages.push({
-              id: `${chat.id}-user`,
-              role: 'user',
-              content: chat.user_query,
-              inputType: 'text',
-              timestamp: new Date(chat.created_at).toLocaleTimeString()
-            });
-            loadedMessages.push({
-              id: `${chat.id}-assistant`,
-              role: 'assistant',
-              content: chat.ai_response,
-              inputType: 'text',
-              timestamp: new Date(chat.created_at).toLocaleTimeString()
-            });
-          });
-          setMessages(loadedMessages);
-        }
-      } catch (error) {
-        console.error('Error loading chat history:', error);
-      } finally {
-        setIsLoadingHistory(false);
-      }
-    };
-
-    loadChatHistory();
-  }, [user]);
-
-  // Auto-scroll to bottom
+  // Auto-scroll to bottom as messages arrive, but not when earlier ones are loaded above
+  const lastMessage = messages[messages.length - 1];
   useEffect(() => {
     if (viewportRef.current) {
       viewportRef.current.scrollTop = viewportRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [lastMessage?.id, lastMessage?.content]);
 
   const handleSpeak = (messageId: string, content: string) => {
     if (speakingMessageId === messageId && isSpeaking) {
@@ -145,77 +142,15 @@ const TextChat = () => {
   };
 
   const sendMessage = async () => {
-    if (!input.trim() || isLoading) return;
+    if (!input.trim() || isLoading || rateLimit) return;
 
-    // Input validation
-    const userMessage = input.trim().slice(0, 1000); // Limit message length
+    const userMessage = input;
     setInput('');
 
-    const tempUserMessage: Message = {
-      id: `temp-${Date.now()}`,
-      role: 'user',
-      content: userMessage,
-      inputType: 'text',
-      timestamp: new Date().toLocaleTimeString()
-    };
-
-    setMessages(prev => [...prev, tempUserMessage]);
-    setIsLoading(true);
-
-    try {
-      const { data, error } = await supabase.functions.invoke('chat-grok', {
-        body: { 
-          message: userMessage,
-          conversationHistory: messages.slice(-10).map(m => ({
-            role: m.role,
-            content: m.content
-          }))
-        }
-      });
-
-      if (error) throw error;
-
-      const aiResponse = data.response || 'I apologize, but I was unable to generate a response. Please try again.';
-
-      // Save to database with input_type = 'text'
-      await supabase.from('chat_history').insert({
-        user_id: user?.id,
-        user_query: userMessage,
-        ai_response: aiResponse,
-        input_type: 'text'
-      });
-
-      const assistantMessage: Message = {
-        id: `assistant-${Date.now()}`,
-        role: 'assistant',
-        content: aiResponse,
-        inputType: 'text',
-        timestamp: new Date().toLocaleTimeString()
-      };
-
-      setMessages(prev => [...prev, assistantMessage]);
-
-    } catch (error: any) {
-      console.error('Error sending message:', error);
-      
-      let errorMessage = 'Failed to get a response. Please try again.';
-      const raw = String(error?.message || '');
-
-      if (raw.includes('429')) {
-        errorMessage = 'Too many requests. Please wait a moment and try again.';
-      } else if (raw.includes('403') || raw.toLowerCase().includes('credits') || raw.toLowerCase().includes('licenses')) {
-        errorMessage = 'AI service is unavailable right now (provider credits required). Please try again later.';
-      } else if (raw.includes('402')) {
-        errorMessage = 'Service temporarily unavailable. Please try again later.';
-      }
-      
-      toast({
-        title: 'Error',
-        description: errorMessage,
-        variant: 'destructive'
-      });
-    } finally {
-      setIsLoading(false);
+    // Rate limited questions are not kept in the thread; give the text back
+    const result = await send(userMessage, { inputType: 'text' });
+    if (result && result.ok === false && result.error.kind === 'rate_limited') {
+      setInput(userMessage.trim());
     }
   };
 
@@ -224,53 +159,22 @@ const TextChat = () => {
     sendMessage();
   };
 
-  const clearHistory = async () => {
-    if (!user) return;
-
-    try {
-      const { error } = await supabase
-        .from('chat_history')
-        .delete()
-        .eq('user_id', user.id)
-        .eq('input_type', 'text');
-
-      if (error) throw error;
-
-      setMessages([]);
-      toast({
-        title: 'Chat Cleared',
-        description: 'Your text chat history has been cleared.'
-      });
-    } catch (error) {
-      toast({
-        title: 'Error',
-        description: 'Failed to clear chat history.',
-        variant: 'destructive'
-      });
-    }
+  const selectConversation = (id: string | null) => {
+    if (openConversation(id)) setIsSidebarOpen(false);
   };
 
-  const exportHistory = () => {
-    if (messages.length === 0) return;
-
-    const content = messages
-      .map(m => `[${m.timestamp}] ${m.role.toUpperCase()}: ${m.content}`)
-      .join('\n\n');
-    
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `iare-chat-history-${new Date().toISOString().split('T')[0]}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-
-    toast({
-      description: 'Chat history exported successfully.'
-    });
-  };
+  const conversationSidebar = (
+    <ConversationSidebar
+      conversations={conversations}
+      activeConversationId={activeConversationId}
+      isLoading={isLoadingConversations}
+      onSelect={selectConversation}
+      onNew={() => selectConversation(null)}
+      onRename={renameConversation}
+      onArchive={archiveConversation}
+      onDelete={deleteConversation}
+    />
+  );
 
   // Filter messages based on search
   const filteredMessages = searchQuery
@@ -279,180 +183,235 @@ const TextChat = () => {
 
   return (
     <Layout>
-      <div className="container mx-auto px-4 py-6 h-[calc(100vh-180px)] flex flex-col">
-        {/* Header */}
-        <Card className="mb-4 border-primary/20 animate-fade-in">
-          <CardHeader className="py-4">
-            <div className="flex items-center justify-between flex-wrap gap-4">
-              <div className="flex items-center gap-3">
-                <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-primary to-primary/70 flex items-center justify-center shadow-lg">
-                  <Keyboard className="h-6 w-6 text-primary-foreground" />
-                </div>
-                <div>
-                  <CardTitle className="text-xl">Text Chat</CardTitle>
-                  <p className="text-sm text-muted-foreground">Type your questions about IARE</p>
-                </div>
-              </div>
-              <div className="flex items-center gap-2">
-                {isSearching ? (
-                  <div className="flex items-center gap-2 animate-fade-in">
-                    <Input
-                      value={searchQuery}
-                      onChange={(e) => setSearchQuery(e.target.value)}
-                      placeholder="Search messages..."
-                      className="w-48"
-                      autoFocus
-                    />
-                    <Button 
-                      variant="ghost" 
-                      size="icon"
-                      onClick={() => {
-                        setIsSearching(false);
-                        setSearchQuery('');
-                      }}
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
+      <div className="container mx-auto px-4 py-6 h-[calc(100vh-180px)] flex gap-4">
+        {/* Conversations */}
+        <Card className="hidden md:flex w-64 flex-shrink-0 overflow-hidden">
+          {conversationSidebar}
+        </Card>
+
+        <div className="flex-1 flex flex-col min-w-0">
+          {/* Header */}
+          <Card className="mb-4 border-primary/20 animate-fade-in">
+            <CardHeader className="py-4">
+              <div className="flex items-center justify-between flex-wrap gap-4">
+                <div className="flex items-center gap-3">
+                  <Sheet open={isSidebarOpen} onOpenChange={setIsSidebarOpen}>
+                    <SheetTrigger asChild>
+                      <Button variant="outline" size="icon" className="md:hidden">
+                        <PanelLeft className="h-4 w-4" />
+                      </Button>
+                    </SheetTrigger>
+                    <SheetContent side="left" className="p-0 w-72">
+                      {conversationSidebar}
+                    </SheetContent>
+                  </Sheet>
+                  <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-primary to-primary/70 flex items-center justify-center shadow-lg">
+                    <Keyboard className="h-6 w-6 text-primary-foreground" />
                   </div>
-                ) : (
+                  <div>
+                    <CardTitle className="text-xl">Text Chat</CardTitle>
+                    <p className="text-sm text-muted-foreground">Type your questions about IARE</p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <LanguageSelect
+                    value={languageOverride}
+                    profileLanguage={profileLanguage}
+                    onChange={setLanguageOverride}
+                    disabled={isLoading}
+                  />
+                  {isSearching ? (
+                    <div className="flex items-center gap-2 animate-fade-in">
+                      <Input
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        placeholder="Search messages..."
+                        className="w-48"
+                        autoFocus
+                      />
+                      <Button 
+                        variant="ghost" 
+                        size="icon"
+                        onClick={() => {
+                          setIsSearching(false);
+                          setSearchQuery('');
+                        }}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button 
+                          variant="outline" 
+                          size="icon"
+                          onClick={() => setIsSearching(true)}
+                        >
+                          <Search className="h-4 w-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>Search messages</TooltipContent>
+                    </Tooltip>
+                  )}
                   <Tooltip>
                     <TooltipTrigger asChild>
                       <Button 
                         variant="outline" 
                         size="icon"
-                        onClick={() => setIsSearching(true)}
+                        onClick={exportHistory}
+                        disabled={messages.length === 0}
                       >
-                        <Search className="h-4 w-4" />
+                        <Download className="h-4 w-4" />
                       </Button>
                     </TooltipTrigger>
-                    <TooltipContent>Search messages</TooltipContent>
+                    <TooltipContent>Export chat</TooltipContent>
+                  </Tooltip>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button 
+                        variant="outline" 
+                        size="icon"
+                        onClick={clearHistory}
+                        disabled={messages.length === 0}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Clear history</TooltipContent>
                   </Tooltip>
-                )}
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button 
-                      variant="outline" 
-                      size="icon"
-                      onClick={exportHistory}
-                      disabled={messages.length === 0}
-                    >
-                      <Download className="h-4 w-4" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>Export chat</TooltipContent>
-                </Tooltip>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button 
-                      variant="outline" 
-                      size="icon"
-                      onClick={clearHistory}
-                      disabled={messages.length === 0}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>Clear history</TooltipContent>
-                </Tooltip>
-              </div>
-            </div>
-          </CardHeader>
-        </Card>
-
-        {/* Chat Area */}
-        <Card className="flex-1 flex flex-col overflow-hidden">
-          <ScrollArea className="flex-1 p-4" viewportRef={viewportRef}>
-            {isLoadingHistory ? (
-              <div className="flex items-center justify-center h-full">
-                <Loader2 className="h-8 w-8 animate-spin text-primary" />
-              </div>
-            ) : filteredMessages.length === 0 ? (
-              <div className="flex flex-col items-center justify-center h-full text-center p-8 animate-fade-in">
-                <div className="h-20 w-20 rounded-2xl bg-gradient-to-br from-primary/20 to-primary/5 flex items-center justify-center mb-6">
-                  <MessageSquare className="h-10 w-10 text-primary" />
-                </div>
-                <h2 className="text-2xl font-bold mb-3">Welcome to Text Chat!</h2>
-                <p className="text-muted-foreground max-w-md mb-6">
-                  Type your questions about IARE admissions, courses, placements, campus facilities, or any other enquiries.
-                </p>
-                <div className="grid grid-cols-2 gap-3 max-w-md">
-                  {['Admission requirements?', 'Placement statistics?', 'Available courses?', 'Campus facilities?'].map((suggestion) => (
-                    <Button
-                      key={suggestion}
-                      variant="outline"
-                      size="sm"
-                      onClick={() => setInput(suggestion)}
-                      className="text-xs hover:scale-105 transition-transform"
-                    >
-                      <Sparkles className="h-3 w-3 mr-1" />
-                      {suggestion}
-                    </Button>
-                  ))}
                 </div>
               </div>
-            ) : (
-              <div className="space-y-1">
-                {filteredMessages.map((message) => (
-                  <div key={message.id} className="group animate-fade-in">
-                    <ChatMessage
-                      role={message.role}
-                      content={message.content}
-                      inputType={message.inputType}
-                      timestamp={message.timestamp}
-                    />
-                    <div className="flex justify-end -mt-2 mb-2">
-                      <MessageActions
-                        content={message.content}
-                        messageId={message.id}
-                        isAssistant={message.role === 'assistant'}
-                        onSpeak={message.role === 'assistant' ? () => handleSpeak(message.id, message.content) : undefined}
-                        isSpeaking={speakingMessageId === message.id && isSpeaking}
-                      />
-                    </div>
+            </CardHeader>
+          </Card>
+
+          {/* Chat Area */}
+          <Card className="flex-1 flex flex-col overflow-hidden">
+            <ScrollArea className="flex-1 p-4" viewportRef={viewportRef}>
+              {isLoadingHistory ? (
+                <div className="flex items-center justify-center h-full">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : filteredMessages.length === 0 ? (
+                <div className="flex flex-col items-center justify-center h-full text-center p-8 animate-fade-in">
+                  <div className="h-20 w-20 rounded-2xl bg-gradient-to-br from-primary/20 to-primary/5 flex items-center justify-center mb-6">
+                    <MessageSquare className="h-10 w-10 text-primary" />
+                  </div>
+                  <h2 className="text-2xl font-bold mb-3">Welcome to Text Chat!</h2>
+                  <p className="text-muted-foreground max-w-md mb-6">
+                    Type your questions about IARE admissions, courses, placements, campus facilities, or any other enquiries.
+                  </p>
+                  <div className="grid grid-cols-2 gap-3 max-w-md">
+                    {['Admission requirements?', 'Placement statistics?', 'Available courses?', 'Campus facilities?'].map((suggestion) => (
+                      <Button
+                        key={suggestion}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setInput(suggestion)}
+                        className="text-xs hover:scale-105 transition-transform"
+                      >
+                        <Sparkles className="h-3 w-3 mr-1" />
+                        {suggestion}
+                      </Button>
+                    ))}
                   </div>
-                ))}
-                {isLoading && (
-                  <div className="flex gap-3 p-4 animate-fade-in">
-                    <div className="h-10 w-10 rounded-xl bg-gradient-to-br from-primary to-primary/70 flex items-center justify-center">
-                      <Loader2 className="h-5 w-5 animate-spin text-primary-foreground" />
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  {hasMore && !searchQuery && (
+                    <div className="flex justify-center pb-2">
+                      <Button variant="ghost" size="sm" onClick={loadMore} disabled={isLoadingMore}>
+                        {isLoadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Load earlier messages
+                      </Button>
                     </div>
-                    <div className="px-4 py-3 rounded-2xl bg-muted/50 border border-border">
-                      <TypingIndicator />
+                  )}
+                  {filteredMessages.map((message) => {
+                    // Feedback is kept per stored turn, on the answer
+                    const chatId = message.role === 'assistant' ? message.chatId : null;
+                    const isReading = speakingMessageId === message.id && isSpeaking;
+                    return (
+                      <div key={message.id} className="group animate-fade-in">
+                        <ChatMessage
+                          role={message.role}
+                          content={message.content}
+                          inputType={message.inputType}
+                          timestamp={message.timestamp}
+                          spokenSentence={isReading ? currentSentence : null}
+                          spokenWord={isReading ? currentWord : null}
+                          error={message.error}
+                          onRetry={() => retry(message.id)}
+                        />
+                        <div className="flex justify-end -mt-2 mb-2">
+                          <MessageActions
+                            content={message.content}
+                            messageId={message.id}
+                            isAssistant={message.role === 'assistant'}
+                            className={isReading ? 'opacity-100' : undefined}
+                            onSpeak={message.role === 'assistant' ? () => handleSpeak(message.id, message.content) : undefined}
+                            isSpeaking={isReading}
+                            isPaused={isPaused}
+                            onPauseResume={isPaused ? resumeSpeech : pauseSpeech}
+                            onSkipSentence={skipSentence}
+                            reaction={chatId ? reactions[chatId] : null}
+                            onReaction={chatId ? (reaction, reason) => submitFeedback(chatId, reaction, reason) : undefined}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {isLoading && !streamingMessageId && (
+                    <div className="flex gap-3 p-4 animate-fade-in">
+                      <div className="h-10 w-10 rounded-xl bg-gradient-to-br from-primary to-primary/70 flex items-center justify-center">
+                        <Loader2 className="h-5 w-5 animate-spin text-primary-foreground" />
+                      </div>
+                      <div className="px-4 py-3 rounded-2xl bg-muted/50 border border-border">
+                        <TypingIndicator />
+                      </div>
                     </div>
-                  </div>
-                )}
-              </div>
-            )}
-          </ScrollArea>
-
-          {/* Input Area */}
-          <CardContent className="border-t border-border p-4">
-            <form onSubmit={handleSubmit} className="flex gap-3">
-              <Input
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                placeholder="Type your message here..."
-                disabled={isLoading}
-                className="flex-1 transition-all focus:ring-2 focus:ring-primary/20"
-                maxLength={1000}
-              />
-              <Button 
-                type="submit" 
-                disabled={!input.trim() || isLoading}
-                className="px-6 hover:scale-105 transition-transform"
-              >
+                  )}
+                </div>
+              )}
+            </ScrollArea>
+
+            {/* Input Area */}
+            <CardContent className="border-t border-border p-4">
+              {rateLimit && (
+                <RateLimitNotice rateLimit={rateLimit} secondsLeft={secondsLeft} className="mb-3" />
+              )}
+              <form onSubmit={handleSubmit} className="flex gap-3">
+                <Input
+                  value={input}
+                  onChange={(e) => setInput(e.target.value)}
+                  placeholder="Type your message here..."
+                  disabled={isLoading}
+                  className="flex-1 transition-all focus:ring-2 focus:ring-primary/20"
+                  maxLength={1000}
+                />
                 {isLoading ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <Button 
+                    type="button" 
+                    variant="outline"
+                    onClick={cancel}
+                    className="px-6"
+                  >
+                    <Square className="h-4 w-4 mr-2" />
+                    Stop
+                  </Button>
                 ) : (
-                  <>
+                  <Button 
+                    type="submit" 
+                    disabled={!input.trim() || !!rateLimit}
+                    className="px-6 hover:scale-105 transition-transform"
+                  >
                     <Send className="h-4 w-4 mr-2" />
                     Send
-                  </>
+                  </Button>
                 )}
-              </Button>
-            </form>
-          </CardContent>
-        </Card>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
       </div>
     </Layout>
   );
@@ -1,20 +1,38 @@
-import { useState, useEffect, useRef } from 'react';
+import { Fragment, useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Layout } from '@/components/Layout';
 import { Button } from '@/components/ui/button';
 import { ChatMessage } from '@/components/ChatMessage';
 import { WaveformAnimation, PulseRing } from '@/components/WaveformAnimation';
 import { TypingIndicator } from '@/components/TypingIndicator';
 import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
-import { useSpeechSynthesis } from '@/hooks/useSpeechSynthesis';
+import { useServerTranscription } from '@/hooks/useServerTranscription';
+import { useUtteranceRecorder } from '@/hooks/useUtteranceRecorder';
+import { DEFAULT_VOICE_CLIP_SETTINGS, useVoiceClips } from '@/hooks/useVoiceClips';
+import { useCorrectedTranscript } from '@/hooks/useSpeechCorrections';
+import { useProfile } from '@/hooks/useProfile';
+import { DEFAULT_SPEECH_SETTINGS, SpeechSettings, useSpeechSynthesis } from '@/hooks/useSpeechSynthesis';
 import { useAudioDevices } from '@/hooks/useAudioDevices';
 import { AudioDeviceSelector } from '@/components/AudioDeviceSelector';
-import { useAuth } from '@/hooks/useAuth';
-import { supabase } from '@/integrations/supabase/client';
+import { VoiceActivitySettings } from '@/components/VoiceActivitySettings';
+import { useVoiceActivity, useVoiceActivitySettings } from '@/hooks/useVoiceActivity';
+import { useBargeIn } from '@/hooks/useBargeIn';
+import { ChatSessionMessage, useChatSession } from '@/hooks/useChatSession';
+import { ConversationSidebar } from '@/components/ConversationSidebar';
 import { useToast } from '@/hooks/use-toast';
+import { RateLimitNotice } from '@/components/RateLimitNotice';
+import { LanguageSelect } from '@/components/LanguageSelect';
+import { VoiceCommandHelp } from '@/components/VoiceCommandHelp';
+import { matchVoiceCommand, VoiceCommand } from '@/lib/voiceCommands';
+import { TranscriptEditor } from '@/components/TranscriptEditor';
+import { DraftWord, LOW_CONFIDENCE, draftText, toDraftWords } from '@/lib/transcriptDraft';
 import { 
   Loader2, 
   Volume2, 
   VolumeX, 
+  Pause,
+  Play,
+  SkipForward,
   Trash2, 
   Mic,
   MicOff,
@@ -25,9 +43,12 @@ import {
   Download,
   Settings2,
   Bluetooth,
-  Usb
+  Usb,
+  PanelLeft,
+  HelpCircle
 } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Switch } from '@/components/ui/switch';
@@ -36,13 +57,8 @@ import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { cn } from '@/lib/utils';
 
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  inputType: 'text' | 'voice';
-  timestamp: string;
-}
+/** Recognition delivers its last final results shortly after stop() */
+const FINAL_RESULT_SETTLE_MS = 500;
 
 /**
  * VOICE CHAT MODULE
@@ -53,13 +69,33 @@ interface Message {
  * - Uses external USB microphone through Web Speech API
  * - Hardware Flow: USB Microphone → Browser Microphone Access → SpeechRecognition API
  *   → Text Conversion → Backend API → Grok (xAI) API → Text Response → SpeechSynthesis → Audio Output
+ * - Without the SpeechRecognition API (or when preferred in Profile > Preferences) the
+ *   utterance is recorded with MediaRecorder and transcribed by the transcribe function
  * 
  * Features:
  * - Microphone button with start/stop controls
- * - Real-time speech-to-text display
- * - Auto-send or confirm voice input before sending
+ * - Real-time speech-to-text display, with words still being recognized
+ *   greyed out and low-confidence words underlined
+ * - Campus vocabulary correction: recognizer alternatives are matched against
+ *   the admin-maintained speech_corrections dictionary and the best one is kept
+ * - Streaming responses rendered as they are generated; a reply can be
+ *   stopped, and failed questions retried
+ * - Auto-send, or review the transcript before sending: tap an underlined
+ *   word to pick what else the recognizer heard, type over it, record more,
+ *   or edit the whole text and send it from the keyboard
+ * - Live microphone level meter; auto-send fires when voice activity
+ *   detection hears the end of speech (threshold and pause are configurable)
  * - Voice response playback using text-to-speech
  * - Mute/unmute option for voice output
+ * - Spoken replies play on the speaker chosen in the device settings
+ * - Unplugging the microphone switches to the next best one; the chosen
+ *   microphone is used again as soon as it is plugged back in
+ * - Barge-in: talking over a spoken reply stops it and starts listening
+ * - Optional recordings of each question (Profile > Preferences), stored in
+ *   the voice-clips bucket and playable on the question's bubble; expired
+ *   ones are deleted on load and all of them when the chat is cleared
+ * - Voice commands ("repeat that", "stop", "clear conversation", ...) are
+ *   handled locally instead of being sent; see src/lib/voiceCommands.ts
  * 
  * Error Handling:
  * - Mic not available detection
@@ -73,15 +109,43 @@ interface Message {
  * - Microphone permission handled securely
  */
 const VoiceChat = () => {
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [isLoadingHistory, setIsLoadingHistory] = useState(true);
   const [autoSend, setAutoSend] = useState(false);
-  const [currentTranscript, setCurrentTranscript] = useState('');
+  // Transcript waiting to be reviewed and sent (auto-send off)
+  const [draft, setDraft] = useState<DraftWord[]>([]);
   const [showDeviceSettings, setShowDeviceSettings] = useState(false);
+  const [showCommandHelp, setShowCommandHelp] = useState(false);
   
-  const { user } = useAuth();
+  const navigate = useNavigate();
   const { toast } = useToast();
+  const {
+    messages,
+    isLoadingHistory,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    isSending: isLoading,
+    streamingMessageId,
+    send,
+    retry,
+    cancel,
+    clear: clearHistory,
+    exportHistory,
+    updateMessage,
+    rateLimit,
+    secondsLeft,
+    conversations,
+    activeConversationId,
+    isLoadingConversations,
+    selectConversation: openConversation,
+    renameConversation,
+    archiveConversation,
+    deleteConversation,
+    language,
+    languageOverride,
+    profileLanguage,
+    setLanguageOverride
+  } = useChatSession('voice');
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const viewportRef = useRef<HTMLDivElement>(null);
   const autoSendTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   
@@ -89,95 +153,116 @@ const VoiceChat = () => {
   const {
     inputDevices,
     selectedInputDevice,
+    selectedOutputDevice,
     hasPermission: hasAudioPermission,
     requestPermission: requestAudioPermission
-  } = useAudioDevices();
+  } = useAudioDevices({
+    // The recording stream dies with its microphone; keep what was heard so far and carry on with the fallback
+    onInputDeviceChange: ({ reason, device, previousLabel }) => {
+      if (reason === 'fallback' && isListening) {
+        stopListening();
+        startListening(device.deviceId);
+      }
+      toast({
+        title: reason === 'fallback' ? 'Microphone disconnected' : 'Microphone reconnected',
+        description: reason === 'fallback'
+          ? `${previousLabel} was removed. Now using ${device.label}.`
+          : `Switched back to ${device.label}.`,
+      });
+    },
+  });
   
+  const { profile, updatePreferences } = useProfile();
+
+  // Server transcription when preferred, or when the browser has no recognizer
+  const browserRecognition = useSpeechRecognition(language.locale);
+  const serverRecognition = useServerTranscription(language.locale);
+  const recognition = profile?.preferences.speech_recognition === 'server' || !browserRecognition.isSupported
+    ? serverRecognition
+    : browserRecognition;
+
   const { 
-    transcript, 
+    interimTranscript,
+    segments: recognizedSegments,
     isListening, 
+    isTranscribing,
     error: speechError, 
+    mediaStream,
     startListening, 
     stopListening, 
     resetTranscript,
     isSupported: speechRecognitionSupported 
-  } = useSpeechRecognition();
+  } = recognition;
+
+  // Record the question alongside its transcript when the user opted in
+  const clipSettings = profile?.preferences.voice_clips ?? DEFAULT_VOICE_CLIP_SETTINGS;
+  const { takeClips, discardClips } = useUtteranceRecorder(clipSettings.record && isListening ? mediaStream : null);
+  const { saveClips } = useVoiceClips();
+
+  // Misheard campus terms ("em set" for EAMCET) are fixed before the transcript is shown or sent
+  const { segments: transcriptSegments, finalTranscript: transcript } = useCorrectedTranscript(recognizedSegments);
   
   const { 
     speak, 
     cancel: cancelSpeech,
+    pause: pauseSpeech,
+    resume: resumeSpeech,
+    skipSentence,
     isSpeaking,
+    isPaused,
+    currentSentence,
+    currentWord,
     isMuted, 
     toggleMute,
     isSupported: speechSynthesisSupported 
-  } = useSpeechSynthesis();
+  } = useSpeechSynthesis(language.locale, selectedOutputDevice, profile?.preferences.tts);
+  // Reply being read aloud, for highlighting
+  const [spokenMessageId, setSpokenMessageId] = useState<string | null>(null);
+  // Confirmation of a spoken "louder"/"faster" command, waiting for the new settings to render
+  const [settingsConfirmation, setSettingsConfirmation] = useState<string | null>(null);
+
+  // Meter the microphone and stop listening once the user stops talking (auto-send only)
+  const { settings: vadSettings, updateSettings: updateVadSettings } = useVoiceActivitySettings();
+  const { level: micLevel, levels: micLevels } = useVoiceActivity(isListening ? mediaStream : null, {
+    ...vadSettings,
+    onEndOfUtterance: () => {
+      if (autoSend) stopListening();
+    },
+  });
+
+  // Talking over a spoken reply cuts it off and captures the new question
+  useBargeIn({
+    enabled: vadSettings.bargeIn && hasAudioPermission && !isListening,
+    isSpeaking,
+    deviceId: selectedInputDevice,
+    onBargeIn: () => {
+      cancelSpeech();
+      resetTranscript();
+      startListening(selectedInputDevice || undefined);
+    },
+  });
 
   // Get current device info for display
   const currentDevice = inputDevices.find(d => d.deviceId === selectedInputDevice);
 
-  // Load voice chat history on mount
-  useEffect(() => {
-    const loadChatHistory = async () => {
-      if (!user) return;
-      
-      try {
-        const { data, error } = await supabase
-          .from('chat_history')
-          .select('*')
-          .eq('input_type', 'voice')
-          .order('created_at', { ascending: true })
-          .limit(50);
-
-        if (error) throw error;
-
-        if (data) {
-          const loadedMessages: Message[] = [];
-          data.forEach((chat) => {
-            loadedMessages.push({
-              id: `${chat.id}-user`,
-              role: 'user',
-              content: chat.user_query,
-              inputType: 'voice',
-              timestamp: new Date(chat.created_at).toLocaleTimeString()
-            });
-            loadedMessages.push({
-              id: `${chat.id}-assistant`,
-              role: 'assistant',
-              content: chat.ai_response,
-              inputType: 'voice',
-              timestamp: new Date(chat.created_at).toLocaleTimeString()
-            });
-          });
-          setMessages(loadedMessages);
-        }
-      } catch (error) {
-        console.error('Error loading chat history:', error);
-      } finally {
-        setIsLoadingHistory(false);
-      }
-    };
-
-    loadChatHistory();
-  }, [user]);
-
-  // Update current transcript when speech recognition provides new text
+  // Once listening has stopped, leaving time for the last final results to arrive,
+  // either send the transcript or add it to the draft for review
+  const sendMessageRef = useRef<(messageText?: string) => void>(() => {});
   useEffect(() => {
-    if (transcript) {
-      setCurrentTranscript(transcript);
-      
-      // Auto-send after 2 seconds of silence if enabled
-      if (autoSend && !isListening) {
-        if (autoSendTimeoutRef.current) {
-          clearTimeout(autoSendTimeoutRef.current);
-        }
-        autoSendTimeoutRef.current = setTimeout(() => {
-          if (transcript.trim()) {
-            sendMessage(transcript.trim());
-          }
-        }, 2000);
-      }
+    if (autoSendTimeoutRef.current) {
+      clearTimeout(autoSendTimeoutRef.current);
     }
-  }, [transcript, isListening, autoSend]);
+    if (!transcript.trim() || isListening) return;
+
+    autoSendTimeoutRef.current = setTimeout(() => {
+      if (autoSend) {
+        sendMessageRef.current(transcript.trim());
+      } else {
+        setDraft(prev => [...prev, ...toDraftWords(transcriptSegments)]);
+        resetTranscript();
+      }
+    }, FINAL_RESULT_SETTLE_MS);
+  }, [transcript, transcriptSegments, isListening, autoSend, resetTranscript]);
 
   // Show speech recognition errors
   useEffect(() => {
@@ -190,12 +275,13 @@ const VoiceChat = () => {
     }
   }, [speechError, toast]);
 
-  // Auto-scroll to bottom
+  // Auto-scroll to bottom as messages arrive, but not when earlier ones are loaded above
+  const lastMessage = messages[messages.length - 1];
   useEffect(() => {
     if (viewportRef.current) {
       viewportRef.current.scrollTop = viewportRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [lastMessage?.id, lastMessage?.content]);
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -223,121 +309,185 @@ const VoiceChat = () => {
         }
       }
       
+      // Never transcribe the reply that is still playing; with auto-send off
+      // the new speech is added to the draft under review
+      cancelSpeech();
       resetTranscript();
-      setCurrentTranscript('');
+      if (autoSend) discardDraft();
       // Start listening with selected device
       startListening(selectedInputDevice || undefined);
     }
   };
 
+  const discardDraft = () => {
+    setDraft([]);
+    discardClips();
+  };
+
   const sendMessage = async (messageText?: string) => {
-    const userMessage = (messageText || currentTranscript).trim();
-    if (!userMessage || isLoading) return;
+    const userMessage = (messageText || draftText(draft)).trim();
+    if (!userMessage) return;
+
+    // Commands are handled locally, even while a reply is loading or sending is rate limited
+    const command = matchVoiceCommand(userMessage);
+    if (command) {
+      resetTranscript();
+      stopListening();
+      discardDraft();
+      runVoiceCommand(command);
+      return;
+    }
+
+    if (isLoading || rateLimit) return;
 
     // Clear transcript and stop listening
     resetTranscript();
-    setCurrentTranscript('');
+    setDraft([]);
     stopListening();
+    const clips = takeClips();
+
+    const result = await send(userMessage, { inputType: 'voice' });
+    if (!result?.ok) return;
+
+    // Attach the recording in the background; the reply does not wait for the upload
+    const { chatId, conversationId } = result;
+    if (chatId && conversationId) {
+      clips
+        .then(blobs => saveClips(chatId, conversationId, blobs))
+        .then(paths => {
+          if (paths.length > 0) updateMessage(`${chatId}-user`, { audioPaths: paths });
+        });
+    }
 
-    const tempUserMessage: Message = {
-      id: `temp-${Date.now()}`,
-      role: 'user',
-      content: userMessage,
-      inputType: 'voice',
-      timestamp: new Date().toLocaleTimeString()
-    };
+    // Auto-speak the response if not muted
+    if (!isMuted && speechSynthesisSupported) {
+      speak(result.response);
+      setSpokenMessageId(result.assistantMessageId);
+    }
+  };
+  sendMessageRef.current = sendMessage;
 
-    setMessages(prev => [...prev, tempUserMessage]);
-    setIsLoading(true);
+  /** Speak a command's confirmation, or show it when spoken replies are off */
+  const confirmCommand = (text: string) => {
+    if (isMuted || !speechSynthesisSupported) {
+      toast({ description: text });
+      return;
+    }
+    setSpokenMessageId(null);
+    speak(text);
+  };
+  const confirmCommandRef = useRef(confirmCommand);
+  confirmCommandRef.current = confirmCommand;
+
+  /** Step a reading setting within its Profile > Preferences slider range and save it */
+  const adjustSpeech = async (
+    key: keyof Pick<SpeechSettings, 'rate' | 'volume'>,
+    step: number,
+    [min, max]: [number, number],
+    done: string,
+    atLimit: string
+  ) => {
+    const tts = profile?.preferences.tts ?? DEFAULT_SPEECH_SETTINGS;
+    const value = Math.round(Math.min(max, Math.max(min, tts[key] + step)) * 100) / 100;
+    if (value === tts[key]) {
+      confirmCommand(atLimit);
+      return;
+    }
 
     try {
-      const { data, error } = await supabase.functions.invoke('chat-grok', {
-        body: { 
-          message: userMessage,
-          conversationHistory: messages.slice(-10).map(m => ({
-            role: m.role,
-            content: m.content
-          }))
-        }
-      });
-
-      if (error) throw error;
-
-      const aiResponse = data.response || 'I apologize, but I was unable to generate a response. Please try again.';
-
-      // Save to database with input_type = 'voice'
-      await supabase.from('chat_history').insert({
-        user_id: user?.id,
-        user_query: userMessage,
-        ai_response: aiResponse,
-        input_type: 'voice'
-      });
-
-      const assistantMessage: Message = {
-        id: `assistant-${Date.now()}`,
-        role: 'assistant',
-        content: aiResponse,
-        inputType: 'voice',
-        timestamp: new Date().toLocaleTimeString()
-      };
-
-      setMessages(prev => [...prev, assistantMessage]);
+      await updatePreferences({ tts: { ...tts, [key]: value } });
+      setSettingsConfirmation(done);
+    } catch {
+      // updatePreferences has already reported the failure
+    }
+  };
 
-      // Auto-speak the response if not muted
-      if (!isMuted && speechSynthesisSupported) {
-        speak(aiResponse);
+  // Spoken once the saved settings have re-rendered, so it already sounds the new way
+  useEffect(() => {
+    if (!settingsConfirmation) return;
+    setSettingsConfirmation(null);
+    confirmCommandRef.current(settingsConfirmation);
+  }, [settingsConfirmation]);
+
+  const lastMessageBy = (role: ChatSessionMessage['role']) => [...messages].reverse().find(m => m.role === role);
+
+  const runVoiceCommand = async (command: VoiceCommand) => {
+    switch (command) {
+      case 'repeat': {
+        const answer = lastMessageBy('assistant');
+        if (!answer) {
+          confirmCommand('There is no answer to repeat yet.');
+        } else if (isMuted) {
+          toast({ description: 'Spoken replies are muted. Say "unmute" to hear answers.' });
+        } else {
+          setSpokenMessageId(answer.id);
+          speak(answer.content);
+        }
+        break;
       }
-
-    } catch (error: any) {
-      console.error('Error sending message:', error);
-      
-      let errorMessage = 'Failed to get a response. Please try again.';
-      const raw = String(error?.message || '');
-
-      if (raw.includes('429')) {
-        errorMessage = 'Too many requests. Please wait a moment and try again.';
-      } else if (raw.includes('403') || raw.toLowerCase().includes('credits') || raw.toLowerCase().includes('licenses')) {
-        errorMessage = 'AI service is unavailable right now (provider credits required). Please try again later.';
-      } else if (raw.includes('402')) {
-        errorMessage = 'Service temporarily unavailable. Please try again later.';
+      case 'stop':
+        cancelSpeech();
+        break;
+      case 'mute':
+        if (!isMuted) toggleMute();
+        toast({ description: 'Spoken replies muted.' });
+        break;
+      case 'unmute':
+        if (isMuted) toggleMute();
+        toast({ description: 'Spoken replies turned on.' });
+        break;
+      case 'clear':
+        if (messages.length === 0) {
+          confirmCommand('There is nothing to clear.');
+          break;
+        }
+        await clearHistory();
+        if (!isMuted) confirmCommand('Conversation cleared.');
+        break;
+      case 'switch_to_text':
+        navigate('/text-chat');
+        break;
+      case 'read_last_question': {
+        const question = lastMessageBy('user');
+        confirmCommand(question ? `You asked: ${question.content}` : 'You have not asked anything yet.');
+        break;
       }
-      
-      toast({
-        title: 'Error',
-        description: errorMessage,
-        variant: 'destructive'
-      });
-    } finally {
-      setIsLoading(false);
+      case 'louder':
+        await adjustSpeech('volume', 0.2, [0.2, 1], 'Speaking louder.', 'This is the loudest I can speak.');
+        break;
+      case 'quieter':
+        await adjustSpeech('volume', -0.2, [0.2, 1], 'Speaking more quietly.', 'This is the quietest I can speak.');
+        break;
+      case 'faster':
+        await adjustSpeech('rate', 0.25, [0.5, 2], 'Speaking faster.', 'This is the fastest I can speak.');
+        break;
+      case 'slower':
+        await adjustSpeech('rate', -0.25, [0.5, 2], 'Speaking more slowly.', 'This is the slowest I can speak.');
+        break;
+      case 'help':
+        setShowCommandHelp(true);
+        confirmCommand('Here are the things you can say.');
+        break;
     }
   };
 
-  const clearHistory = async () => {
-    if (!user) return;
-
-    try {
-      const { error } = await supabase
-        .from('chat_history')
-        .delete()
-        .eq('user_id', user.id)
-        .eq('input_type', 'voice');
-
-      if (error) throw error;
-
-      setMessages([]);
-      toast({
-        title: 'Chat Cleared',
-        description: 'Your voice chat history has been cleared.'
-      });
-    } catch (error) {
-      toast({
-        title: 'Error',
-        description: 'Failed to clear chat history.',
-        variant: 'destructive'
-      });
-    }
+  const selectConversation = (id: string | null) => {
+    if (openConversation(id)) setIsSidebarOpen(false);
   };
 
+  const conversationSidebar = (
+    <ConversationSidebar
+      conversations={conversations}
+      activeConversationId={activeConversationId}
+      isLoading={isLoadingConversations}
+      onSelect={selectConversation}
+      onNew={() => selectConversation(null)}
+      onRename={renameConversation}
+      onArchive={archiveConversation}
+      onDelete={deleteConversation}
+    />
+  );
+
   if (!speechRecognitionSupported) {
     return (
       <Layout>
@@ -346,7 +496,7 @@ const VoiceChat = () => {
             <AlertCircle className="h-4 w-4" />
             <AlertTitle>Voice Chat Unavailable</AlertTitle>
             <AlertDescription>
-              Your browser doesn't support voice recognition. Please use a modern browser like Chrome, Edge, or Safari,
+              Your browser supports neither voice recognition nor audio recording. Please use a modern browser like Chrome, Edge, Firefox or Safari,
               or switch to <a href="/text-chat" className="underline font-medium">Text Chat</a> instead.
             </AlertDescription>
           </Alert>
@@ -357,224 +507,389 @@ const VoiceChat = () => {
 
   return (
     <Layout>
-      <div className="container mx-auto px-4 py-6 h-[calc(100vh-180px)] flex flex-col">
-        {/* Header */}
-        <Card className="mb-4 border-primary/20">
-          <CardHeader className="py-4">
-            <div className="flex items-center justify-between flex-wrap gap-4">
-              <div className="flex items-center gap-3">
-                <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-primary to-primary/70 flex items-center justify-center shadow-lg">
-                  <Headphones className="h-6 w-6 text-primary-foreground" />
-                </div>
-                <div>
-                  <CardTitle className="text-xl">Voice Chat</CardTitle>
-                  <p className="text-sm text-muted-foreground">Speak your questions about IARE</p>
+      <div className="container mx-auto px-4 py-6 h-[calc(100vh-180px)] flex gap-4">
+        {/* Conversations */}
+        <Card className="hidden md:flex w-64 flex-shrink-0 overflow-hidden">
+          {conversationSidebar}
+        </Card>
+
+        <div className="flex-1 flex flex-col min-w-0">
+          {/* Header */}
+          <Card className="mb-4 border-primary/20">
+            <CardHeader className="py-4">
+              <div className="flex items-center justify-between flex-wrap gap-4">
+                <div className="flex items-center gap-3">
+                  <Sheet open={isSidebarOpen} onOpenChange={setIsSidebarOpen}>
+                    <SheetTrigger asChild>
+                      <Button variant="outline" size="icon" className="md:hidden">
+                        <PanelLeft className="h-4 w-4" />
+                      </Button>
+                    </SheetTrigger>
+                    <SheetContent side="left" className="p-0 w-72">
+                      {conversationSidebar}
+                    </SheetContent>
+                  </Sheet>
+                  <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-primary to-primary/70 flex items-center justify-center shadow-lg">
+                    <Headphones className="h-6 w-6 text-primary-foreground" />
+                  </div>
+                  <div>
+                    <CardTitle className="text-xl">Voice Chat</CardTitle>
+                    <p className="text-sm text-muted-foreground">Speak your questions about IARE</p>
+                  </div>
                 </div>
-              </div>
-              <div className="flex items-center gap-4">
-                {/* Device settings toggle */}
-                <Button
-                  variant={showDeviceSettings ? "secondary" : "outline"}
-                  size="icon"
-                  onClick={() => setShowDeviceSettings(!showDeviceSettings)}
-                  title="Audio device settings"
-                >
-                  <Settings2 className="h-4 w-4" />
-                </Button>
-
-                {/* Auto-send toggle */}
-                <div className="flex items-center gap-2">
-                  <Switch
-                    id="auto-send"
-                    checked={autoSend}
-                    onCheckedChange={setAutoSend}
+                <div className="flex items-center gap-4">
+                  {/* Conversation language */}
+                  <LanguageSelect
+                    value={languageOverride}
+                    profileLanguage={profileLanguage}
+                    onChange={setLanguageOverride}
+                    disabled={isListening || isLoading}
                   />
-                  <Label htmlFor="auto-send" className="text-sm">Auto-send</Label>
-                </div>
+
+                  {/* Voice command help */}
+                  <Button
+                    variant={showCommandHelp ? "secondary" : "outline"}
+                    size="icon"
+                    onClick={() => setShowCommandHelp(!showCommandHelp)}
+                    title="Voice commands"
+                  >
+                    <HelpCircle className="h-4 w-4" />
+                  </Button>
+
+                  {/* Device settings toggle */}
+                  <Button
+                    variant={showDeviceSettings ? "secondary" : "outline"}
+                    size="icon"
+                    onClick={() => setShowDeviceSettings(!showDeviceSettings)}
+                    title="Audio device settings"
+                  >
+                    <Settings2 className="h-4 w-4" />
+                  </Button>
+
+                  {/* Auto-send toggle */}
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="auto-send"
+                      checked={autoSend}
+                      onCheckedChange={setAutoSend}
+                    />
+                    <Label htmlFor="auto-send" className="text-sm">Auto-send</Label>
+                  </div>
                 
-                {/* Mute toggle */}
-                {speechSynthesisSupported && (
+                  {/* Mute toggle */}
+                  {speechSynthesisSupported && (
+                    <Button 
+                      variant={isMuted ? "outline" : "secondary"}
+                      size="icon"
+                      onClick={toggleMute}
+                      title={isMuted ? "Unmute responses" : "Mute responses"}
+                    >
+                      {isMuted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+                    </Button>
+                  )}
+                
+                  {/* Export chat */}
                   <Button 
-                    variant={isMuted ? "outline" : "secondary"}
+                    variant="outline" 
                     size="icon"
-                    onClick={toggleMute}
-                    title={isMuted ? "Unmute responses" : "Mute responses"}
+                    onClick={exportHistory}
+                    disabled={messages.length === 0}
+                    title="Export chat"
                   >
-                    {isMuted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+                    <Download className="h-4 w-4" />
                   </Button>
-                )}
-                
-                {/* Clear history */}
-                <Button 
-                  variant="outline" 
-                  size="icon"
-                  onClick={clearHistory}
-                  disabled={messages.length === 0}
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
+
+                  {/* Clear history */}
+                  <Button 
+                    variant="outline" 
+                    size="icon"
+                    onClick={clearHistory}
+                    disabled={messages.length === 0}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
               </div>
-            </div>
             
-            {/* Current device indicator */}
-            {currentDevice && (
-              <div className="mt-3 flex items-center gap-2 text-sm text-muted-foreground">
-                {currentDevice.deviceType === 'bluetooth' ? (
-                  <Bluetooth className="h-4 w-4 text-blue-500" />
-                ) : currentDevice.deviceType === 'usb' ? (
-                  <Usb className="h-4 w-4 text-green-500" />
-                ) : (
-                  <Mic className="h-4 w-4" />
-                )}
-                <span className="truncate max-w-[200px]">{currentDevice.label}</span>
-                {currentDevice.deviceType === 'bluetooth' && (
-                  <span className="text-xs bg-blue-500/10 text-blue-500 px-2 py-0.5 rounded">Bluetooth</span>
-                )}
-              </div>
-            )}
-          </CardHeader>
+              {/* Current device indicator */}
+              {currentDevice && (
+                <div className="mt-3 flex items-center gap-2 text-sm text-muted-foreground">
+                  {currentDevice.deviceType === 'bluetooth' ? (
+                    <Bluetooth className="h-4 w-4 text-blue-500" />
+                  ) : currentDevice.deviceType === 'usb' ? (
+                    <Usb className="h-4 w-4 text-green-500" />
+                  ) : (
+                    <Mic className="h-4 w-4" />
+                  )}
+                  <span className="truncate max-w-[200px]">{currentDevice.label}</span>
+                  {currentDevice.deviceType === 'bluetooth' && (
+                    <span className="text-xs bg-blue-500/10 text-blue-500 px-2 py-0.5 rounded">Bluetooth</span>
+                  )}
+                </div>
+              )}
+            </CardHeader>
           
-          {/* Collapsible Device Settings */}
-          <Collapsible open={showDeviceSettings} onOpenChange={setShowDeviceSettings}>
-            <CollapsibleContent className="px-4 pb-4">
-              <AudioDeviceSelector showOutputDevice={true} />
-            </CollapsibleContent>
-          </Collapsible>
-        </Card>
+            {/* Collapsible Device Settings */}
+            <Collapsible open={showDeviceSettings} onOpenChange={setShowDeviceSettings}>
+              <CollapsibleContent className="px-4 pb-4">
+                <div className="space-y-4">
+                  <AudioDeviceSelector showOutputDevice={true} />
+                  <VoiceActivitySettings
+                    settings={vadSettings}
+                    onChange={updateVadSettings}
+                    level={micLevel}
+                    isListening={isListening}
+                  />
+                </div>
+              </CollapsibleContent>
+            </Collapsible>
+          </Card>
 
-        {/* Chat Area */}
-        <Card className="flex-1 flex flex-col overflow-hidden">
-          <ScrollArea className="flex-1 p-4" viewportRef={viewportRef}>
-            {isLoadingHistory ? (
-              <div className="flex items-center justify-center h-full">
-                <Loader2 className="h-8 w-8 animate-spin text-primary" />
-              </div>
-            ) : messages.length === 0 && !currentTranscript ? (
-              <div className="flex flex-col items-center justify-center h-full text-center p-8">
-                <div className="h-24 w-24 rounded-full bg-gradient-to-br from-primary/20 to-primary/5 flex items-center justify-center mb-6 relative">
-                  <Mic className="h-12 w-12 text-primary" />
-                  <div className="absolute inset-0 rounded-full border-4 border-primary/20 animate-ping" />
+          {showCommandHelp && (
+            <div className="mb-4">
+              <VoiceCommandHelp onClose={() => setShowCommandHelp(false)} />
+            </div>
+          )}
+
+          {/* Chat Area */}
+          <Card className="flex-1 flex flex-col overflow-hidden">
+            <ScrollArea className="flex-1 p-4" viewportRef={viewportRef}>
+              {isLoadingHistory ? (
+                <div className="flex items-center justify-center h-full">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
                 </div>
-                <h2 className="text-2xl font-bold mb-3">Welcome to Voice Chat!</h2>
-                <p className="text-muted-foreground max-w-md mb-6">
-                  Click the microphone button below and speak your question about IARE. 
-                  Your voice will be converted to text and sent to our AI assistant.
-                </p>
-                <div className="text-sm text-muted-foreground bg-muted/50 rounded-lg p-4 max-w-md">
-                  <p className="font-medium mb-2">💡 Tips:</p>
-                  <ul className="list-disc list-inside space-y-1 text-left">
-                    <li>Speak clearly near your microphone</li>
-                    <li>Enable "Auto-send" for hands-free mode</li>
-                    <li>Toggle mute to control voice responses</li>
-                    <li>Click <Settings2 className="h-3 w-3 inline" /> to select Bluetooth or USB audio devices</li>
-                  </ul>
+              ) : messages.length === 0 && draft.length === 0 && !transcript ? (
+                <div className="flex flex-col items-center justify-center h-full text-center p-8">
+                  <div className="h-24 w-24 rounded-full bg-gradient-to-br from-primary/20 to-primary/5 flex items-center justify-center mb-6 relative">
+                    <Mic className="h-12 w-12 text-primary" />
+                    <div className="absolute inset-0 rounded-full border-4 border-primary/20 animate-ping" />
+                  </div>
+                  <h2 className="text-2xl font-bold mb-3">Welcome to Voice Chat!</h2>
+                  <p className="text-muted-foreground max-w-md mb-6">
+                    Click the microphone button below and speak your question about IARE. 
+                    Your voice will be converted to text and sent to our AI assistant.
+                  </p>
+                  <div className="text-sm text-muted-foreground bg-muted/50 rounded-lg p-4 max-w-md">
+                    <p className="font-medium mb-2">💡 Tips:</p>
+                    <ul className="list-disc list-inside space-y-1 text-left">
+                      <li>Speak clearly near your microphone</li>
+                      <li>Enable "Auto-send" for hands-free mode</li>
+                      <li>Toggle mute to control voice responses</li>
+                      <li>Click <Settings2 className="h-3 w-3 inline" /> to select Bluetooth or USB audio devices</li>
+                    </ul>
+                  </div>
                 </div>
-              </div>
-            ) : (
-              <div className="space-y-1">
-                {messages.map((message) => (
-                  <ChatMessage
-                    key={message.id}
-                    role={message.role}
-                    content={message.content}
-                    inputType={message.inputType}
-                    timestamp={message.timestamp}
-                  />
-                ))}
-                {isLoading && (
-                  <div className="flex gap-3 p-4">
-                    <div className="h-10 w-10 rounded-xl bg-gradient-to-br from-primary to-primary/70 flex items-center justify-center">
-                      <Loader2 className="h-5 w-5 animate-spin text-primary-foreground" />
+              ) : (
+                <div className="space-y-1">
+                  {hasMore && (
+                    <div className="flex justify-center pb-2">
+                      <Button variant="ghost" size="sm" onClick={loadMore} disabled={isLoadingMore}>
+                        {isLoadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Load earlier messages
+                      </Button>
                     </div>
-                    <div className="px-4 py-3 rounded-2xl bg-muted/50 border border-border">
-                      <span className="text-sm text-muted-foreground">Processing voice input...</span>
+                  )}
+                  {messages.map((message) => {
+                    const isReading = isSpeaking && message.id === spokenMessageId;
+                    return (
+                      <ChatMessage
+                        key={message.id}
+                        role={message.role}
+                        content={message.content}
+                        inputType={message.inputType}
+                        timestamp={message.timestamp}
+                        spokenSentence={isReading ? currentSentence : null}
+                        spokenWord={isReading ? currentWord : null}
+                        audioPaths={message.audioPaths}
+                        error={message.error}
+                        onRetry={() => retry(message.id)}
+                      />
+                    );
+                  })}
+                  {isLoading && !streamingMessageId && (
+                    <div className="flex gap-3 p-4">
+                      <div className="h-10 w-10 rounded-xl bg-gradient-to-br from-primary to-primary/70 flex items-center justify-center">
+                        <Loader2 className="h-5 w-5 animate-spin text-primary-foreground" />
+                      </div>
+                      <div className="px-4 py-3 rounded-2xl bg-muted/50 border border-border">
+                        <span className="text-sm text-muted-foreground">Processing voice input...</span>
+                      </div>
                     </div>
+                  )}
+                </div>
+              )}
+            </ScrollArea>
+
+            {/* Voice Input Area */}
+            <CardContent className="border-t border-border p-6">
+              {rateLimit && (
+                <RateLimitNotice rateLimit={rateLimit} secondsLeft={secondsLeft} className="mb-4" />
+              )}
+
+              {/* Live transcript display */}
+              {(isListening || isTranscribing || draft.length > 0 || transcript || interimTranscript) && (
+                <div className="mb-4 p-4 rounded-xl bg-muted/50 border border-border">
+                  <div className="flex items-center justify-between gap-2 mb-2">
+                    {isListening && (
+                      <span className="flex items-center gap-2 text-sm text-destructive animate-pulse">
+                        <div className="h-2 w-2 rounded-full bg-destructive" />
+                        Listening...
+                      </span>
+                    )}
+                    {isListening && mediaStream && (
+                      <WaveformAnimation isActive={isListening} levels={micLevels} />
+                    )}
+                    {currentDevice && (
+                      <span className="flex items-center gap-1 text-xs text-muted-foreground ml-auto">
+                        {currentDevice.deviceType === 'bluetooth' ? (
+                          <Bluetooth className="h-3 w-3 text-blue-500" />
+                        ) : currentDevice.deviceType === 'usb' ? (
+                          <Usb className="h-3 w-3 text-green-500" />
+                        ) : (
+                          <Mic className="h-3 w-3" />
+                        )}
+                        {currentDevice.label.substring(0, 20)}...
+                      </span>
+                    )}
                   </div>
-                )}
-              </div>
-            )}
-          </ScrollArea>
-
-          {/* Voice Input Area */}
-          <CardContent className="border-t border-border p-6">
-            {/* Live transcript display */}
-            {(isListening || currentTranscript) && (
-              <div className="mb-4 p-4 rounded-xl bg-muted/50 border border-border">
-                <div className="flex items-center justify-between gap-2 mb-2">
-                  {isListening && (
-                    <span className="flex items-center gap-2 text-sm text-destructive animate-pulse">
-                      <div className="h-2 w-2 rounded-full bg-destructive" />
-                      Listening...
-                    </span>
+                  {draft.length > 0 && (
+                    <TranscriptEditor
+                      words={draft}
+                      onChange={setDraft}
+                      onSend={sendMessage}
+                      disabled={isLoading || !!rateLimit}
+                    />
                   )}
-                  {currentDevice && (
-                    <span className="flex items-center gap-1 text-xs text-muted-foreground ml-auto">
-                      {currentDevice.deviceType === 'bluetooth' ? (
-                        <Bluetooth className="h-3 w-3 text-blue-500" />
-                      ) : currentDevice.deviceType === 'usb' ? (
-                        <Usb className="h-3 w-3 text-green-500" />
-                      ) : (
-                        <Mic className="h-3 w-3" />
-                      )}
-                      {currentDevice.label.substring(0, 20)}...
-                    </span>
+                  {(isListening || isTranscribing || transcriptSegments.length > 0 || draft.length === 0) && (
+                  <p className="text-sm min-h-[2rem]">
+                    {transcriptSegments.length > 0 ? (
+                      transcriptSegments.map((segment, i) => (
+                        <Fragment key={i}>
+                          {i > 0 && ' '}
+                          <span
+                            className={cn(
+                              !segment.isFinal && 'text-muted-foreground italic',
+                              segment.isFinal && segment.confidence > 0 && segment.confidence < LOW_CONFIDENCE &&
+                                'underline decoration-dotted decoration-destructive underline-offset-4'
+                            )}
+                            title={segment.confidence > 0 ? `${Math.round(segment.confidence * 100)}% confidence` : undefined}
+                          >
+                            {segment.text}
+                          </span>
+                        </Fragment>
+                      ))
+                    ) : (
+                      <span className="text-muted-foreground italic">
+                        {isTranscribing ? 'Transcribing...' : 'Speak now...'}
+                      </span>
+                    )}
+                  </p>
                   )}
                 </div>
-                <p className="text-sm min-h-[2rem]">
-                  {currentTranscript || <span className="text-muted-foreground italic">Speak now...</span>}
-                </p>
-              </div>
-            )}
-
-            {/* Voice controls */}
-            <div className="flex items-center justify-center gap-4">
-              {/* Main microphone button */}
-              <Button
-                size="lg"
-                variant={isListening ? "destructive" : "default"}
-                onClick={handleVoiceToggle}
-                disabled={isLoading}
-                className="h-16 w-16 rounded-full shadow-lg transition-all duration-200 hover:scale-105"
-              >
-                {isListening ? (
-                  <Square className="h-6 w-6" />
+              )}
+
+              {/* Voice controls */}
+              <div className="flex items-center justify-center gap-4">
+                {/* Main microphone button; stops the reply while one is loading */}
+                {isLoading ? (
+                  <Button
+                    size="lg"
+                    variant="outline"
+                    onClick={cancel}
+                    className="h-16 w-16 rounded-full shadow-lg"
+                    aria-label="Stop the reply"
+                  >
+                    <Square className="h-6 w-6" />
+                  </Button>
                 ) : (
-                  <Mic className="h-6 w-6" />
+                  <Button
+                    size="lg"
+                    variant={isListening ? "destructive" : "default"}
+                    onClick={handleVoiceToggle}
+                    className="h-16 w-16 rounded-full shadow-lg transition-all duration-200 hover:scale-105"
+                  >
+                    {isListening ? (
+                      <Square className="h-6 w-6" />
+                    ) : (
+                      <Mic className="h-6 w-6" />
+                    )}
+                  </Button>
                 )}
-              </Button>
-
-              {/* Send button - visible when transcript exists */}
-              {currentTranscript && !autoSend && (
-                <Button
-                  size="lg"
-                  onClick={() => sendMessage()}
-                  disabled={isLoading || !currentTranscript.trim()}
-                  className="h-16 px-8 rounded-full shadow-lg"
-                >
-                  <Send className="h-5 w-5 mr-2" />
-                  Send
-                </Button>
-              )}
 
-              {/* Stop speaking button */}
-              {isSpeaking && (
-                <Button
-                  size="lg"
-                  variant="outline"
-                  onClick={cancelSpeech}
-                  className="h-16 px-6 rounded-full"
-                >
-                  <VolumeX className="h-5 w-5 mr-2" />
-                  Stop
-                </Button>
-              )}
-            </div>
+                {/* Send and discard buttons - visible while a transcript is under review */}
+                {draft.length > 0 && !autoSend && (
+                  <>
+                    <Button
+                      size="lg"
+                      onClick={() => sendMessage()}
+                      disabled={isLoading || isListening || !!rateLimit}
+                      className="h-16 px-8 rounded-full shadow-lg"
+                    >
+                      <Send className="h-5 w-5 mr-2" />
+                      Send
+                    </Button>
+                    <Button
+                      size="lg"
+                      variant="outline"
+                      onClick={discardDraft}
+                      className="h-16 w-16 rounded-full"
+                      aria-label="Discard transcript"
+                    >
+                      <Trash2 className="h-5 w-5" />
+                    </Button>
+                  </>
+                )}
 
-            <p className="text-center text-xs text-muted-foreground mt-4">
-              {isListening ? 'Tap the button to stop recording' : 'Tap the microphone to start speaking'}
-            </p>
-          </CardContent>
-        </Card>
+                {/* Playback controls for the spoken reply */}
+                {isSpeaking && (
+                  <>
+                    <Button
+                      size="lg"
+                      variant="outline"
+                      onClick={isPaused ? resumeSpeech : pauseSpeech}
+                      className="h-16 w-16 rounded-full"
+                      aria-label={isPaused ? 'Resume' : 'Pause'}
+                    >
+                      {isPaused ? <Play className="h-5 w-5" /> : <Pause className="h-5 w-5" />}
+                    </Button>
+                    <Button
+                      size="lg"
+                      variant="outline"
+                      onClick={skipSentence}
+                      className="h-16 w-16 rounded-full"
+                      aria-label="Next sentence"
+                    >
+                      <SkipForward className="h-5 w-5" />
+                    </Button>
+                  </>
+                )}
+
+                {/* Stop speaking button */}
+                {isSpeaking && (
+                  <Button
+                    size="lg"
+                    variant="outline"
+                    onClick={cancelSpeech}
+                    className="h-16 px-6 rounded-full"
+                  >
+                    <VolumeX className="h-5 w-5 mr-2" />
+                    Stop
+                  </Button>
+                )}
+              </div>
+
+              <p className="text-center text-xs text-muted-foreground mt-4">
+                {isLoading
+                  ? 'Tap the button to stop the reply'
+                  : isListening
+                    ? 'Tap the button to stop recording'
+                    : draft.length > 0
+                      ? 'Tap a word to correct it, or the microphone to add more'
+                      : 'Tap the microphone to start speaking'}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
       </div>
     </Layout>
   );
@@ -0,0 +1,96 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "./cors.ts";
+
+/** What a speech_usage row counts: characters synthesized, or one recording transcribed */
+export type SpeechUsageKind = 'tts' | 'transcription';
+
+export type SpeechQuotaLimit = 'tts_characters_per_day' | 'transcriptions_per_day' | 'requests_per_minute';
+
+export type SpeechQuotaResult =
+  | { allowed: true; usageId: string }
+  | { allowed: false; limit: SpeechQuotaLimit; limitValue: number; retryAfter: number };
+
+const QUOTA_MESSAGES: Record<SpeechQuotaLimit, string> = {
+  tts_characters_per_day: 'You have reached your daily limit for spoken replies.',
+  transcriptions_per_day: 'You have reached your daily limit for voice questions.',
+  requests_per_minute: 'You are sending voice questions too quickly.',
+};
+
+const serviceClient = () => createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+/**
+ * Check the user's daily speech limit (chat_rate_limits, by profiles.role)
+ * and reserve `amount` if it fits. Like the chat quota, a failing check
+ * lets the request through rather than turning speech off for everyone.
+ */
+export async function consumeSpeechQuota(
+  userId: string,
+  kind: SpeechUsageKind,
+  amount: number
+): Promise<SpeechQuotaResult | null> {
+  const { data, error } = await serviceClient()
+    .rpc('consume_speech_quota', { _user_id: userId, _kind: kind, _amount: amount })
+    .single();
+
+  if (error || !data) {
+    console.error('Failed to check speech quota:', error?.message);
+    return null;
+  }
+
+  const row = data as {
+    allowed: boolean;
+    usage_id: string | null;
+    exceeded_limit: SpeechQuotaLimit | null;
+    limit_value: number | null;
+    retry_after_seconds: number | null;
+  };
+
+  if (row.allowed) {
+    return { allowed: true, usageId: row.usage_id! };
+  }
+
+  return {
+    allowed: false,
+    limit: row.exceeded_limit!,
+    limitValue: row.limit_value ?? 0,
+    retryAfter: row.retry_after_seconds ?? 60,
+  };
+}
+
+/**
+ * Give back a reservation when the provider failed, so outages do not
+ * count against the user's limit.
+ */
+export async function releaseSpeechQuota(usageId: string) {
+  const { error } = await serviceClient()
+    .from('speech_usage')
+    .delete()
+    .eq('id', usageId);
+
+  if (error) {
+    console.error('Failed to release speech quota:', error.message);
+  }
+}
+
+/**
+ * The structured 429 chat-grok returns for its own limits, so clients can
+ * read every limit the same way.
+ */
+export function speechQuotaExceeded(quota: Extract<SpeechQuotaResult, { allowed: false }>) {
+  return new Response(
+    JSON.stringify({
+      error: `${QUOTA_MESSAGES[quota.limit]} Please try again later.`,
+      code: 'rate_limited',
+      limit: quota.limit,
+      limitValue: quota.limitValue,
+      retryAfter: quota.retryAfter,
+    }),
+    {
+      status: 429,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(quota.retryAfter) },
+    }
+  );
+}
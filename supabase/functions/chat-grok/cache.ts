@@ -0,0 +1,105 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface CachedAnswer {
+  questionKey: string;
+  response: string;
+  provider: string;
+  sources: string[];
+}
+
+const DEFAULT_TTL_HOURS = 24;
+
+const serviceClient = () => createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+const ttlHours = () => {
+  const hours = Number(Deno.env.get('ANSWER_CACHE_TTL_HOURS'));
+  return Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_TTL_HOURS;
+};
+
+/**
+ * Normalized question text: lowercased, punctuation stripped, whitespace collapsed,
+ * so "Fee structure?" and "fee  structure" share an answer.
+ */
+export function normalizeQuestion(question: string) {
+  return question
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Cache key: the reply language plus the normalized question, e.g. `hi:fee structure`.
+ */
+function cacheKey(question: string, language: string) {
+  const normalized = normalizeQuestion(question);
+  return normalized ? `${language}:${normalized}` : '';
+}
+
+/**
+ * Whether the answer cache is enabled. Setting ANSWER_CACHE_TTL_HOURS=0 turns it off.
+ */
+export function isCacheEnabled() {
+  return ttlHours() > 0;
+}
+
+/**
+ * Look up an unexpired cached answer and count the hit.
+ * Lookup failures are logged and treated as a miss.
+ */
+export async function getCachedAnswer(question: string, language: string): Promise<CachedAnswer | null> {
+  const questionKey = cacheKey(question, language);
+  if (!questionKey) return null;
+
+  const admin = serviceClient();
+  const { data, error } = await admin
+    .from('answer_cache')
+    .select('question_key, response, provider, sources')
+    .eq('question_key', questionKey)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    console.error('Answer cache lookup failed:', error.message);
+    return null;
+  }
+  if (!data) return null;
+
+  await admin.rpc('record_answer_cache_hit', { _question_key: questionKey });
+
+  return {
+    questionKey: data.question_key,
+    response: data.response,
+    provider: data.provider,
+    sources: data.sources ?? [],
+  };
+}
+
+/**
+ * Store an answer for a context-free question, replacing any expired entry.
+ */
+export async function cacheAnswer(question: string, language: string, answer: Omit<CachedAnswer, 'questionKey'>) {
+  const questionKey = cacheKey(question, language);
+  if (!questionKey) return;
+
+  const { error } = await serviceClient()
+    .from('answer_cache')
+    .upsert({
+      question_key: questionKey,
+      question,
+      response: answer.response,
+      provider: answer.provider,
+      sources: answer.sources,
+      hits: 0,
+      created_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + ttlHours() * 60 * 60 * 1000).toISOString(),
+      last_hit_at: null,
+    }, { onConflict: 'question_key' });
+
+  if (error) {
+    console.error('Failed to cache answer:', error.message);
+  }
+}
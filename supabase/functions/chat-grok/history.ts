@@ -0,0 +1,79 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type InputType = 'text' | 'voice';
+/** Chat page a new conversation is listed on; 'mixed' takes both input types */
+export type ConversationMode = InputType | 'mixed';
+
+export interface ChatTurn {
+  userId: string;
+  conversationId: string | null;
+  userQuery: string;
+  aiResponse: string;
+  provider: string;
+  inputType: InputType;
+  /** Mode of the conversation started when conversationId is null */
+  mode: ConversationMode;
+  /** Answered from the answer cache instead of a provider */
+  cached: boolean;
+}
+
+const MAX_TITLE_LENGTH = 60;
+
+const serviceClient = () => createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+/**
+ * Auto-generated thread title from the first question.
+ */
+export function titleFromQuestion(question: string) {
+  const title = question.replace(/\s+/g, ' ').trim();
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 3).trimEnd()}...` : title;
+}
+
+/**
+ * Check that a conversation exists and belongs to the caller.
+ */
+export async function ownsConversation(userId: string, conversationId: string): Promise<boolean> {
+  const { data } = await serviceClient()
+    .from('conversations')
+    .select('id')
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return !!data;
+}
+
+/**
+ * Persist a completed chat turn as a single chat_history row.
+ * Clients can no longer insert into chat_history, so this uses the service role
+ * with the user id taken from the verified JWT claims.
+ * Starts a new conversation when none is given and titles untitled threads
+ * from their first question, all in one transaction (save_chat_turn).
+ * Returns the stored row and conversation ids, or nulls if the write failed.
+ */
+export async function saveChatTurn(turn: ChatTurn): Promise<{ id: string | null; conversationId: string | null }> {
+  const { data, error } = await serviceClient()
+    .rpc('save_chat_turn', {
+      _user_id: turn.userId,
+      _conversation_id: turn.conversationId,
+      _mode: turn.mode,
+      _title: titleFromQuestion(turn.userQuery),
+      _user_query: turn.userQuery,
+      _ai_response: turn.aiResponse,
+      _provider: turn.provider,
+      _input_type: turn.inputType,
+      _cached: turn.cached,
+    })
+    .single();
+
+  if (error || !data) {
+    console.error('Failed to save chat turn:', error?.message);
+    return { id: null, conversationId: turn.conversationId };
+  }
+
+  const row = data as { chat_id: string; conversation_id: string };
+  return { id: row.chat_id, conversationId: row.conversation_id };
+}
@@ -1,108 +1,110 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { corsHeaders } from "../_shared/cors.ts";
+import { formatKnowledgeContext, retrieveKnowledge, sourceId } from "./knowledge.ts";
+import { callProvider, loadProviders, type ChatMessage } from "./providers.ts";
+import { ownsConversation, saveChatTurn } from "./history.ts";
+import { parseChatRequest } from "./validation.ts";
+import { cacheAnswer, getCachedAnswer, isCacheEnabled } from "./cache.ts";
+import { languageInstruction } from "./languages.ts";
+import { consumeQuota, estimateTokens, recordTokens, releaseQuota, type QuotaLimit } from "./quota.ts";
 
 const IARE_SYSTEM_PROMPT = `You are a friendly and helpful AI Assistant for the Institute of Aeronautical Engineering (IARE), Dundigal, Hyderabad. Your role is to assist students, parents, and visitors with IARE-specific queries.
 
-About IARE:
-- Full Name: Institute of Aeronautical Engineering
-- Location: Dundigal, Hyderabad, Telangana, India
-- Established: 2000
-- Affiliation: Jawaharlal Nehru Technological University Hyderabad (JNTUH)
-- Accreditation: NAAC 'A++' Grade, NBA Accredited programs
-- Campus: 32 acres with modern infrastructure
-
-Departments & Courses:
-- Aeronautical Engineering
-- Computer Science & Engineering (CSE)
-- Information Technology (IT)
-- Electronics & Communication Engineering (ECE)
-- Electrical & Electronics Engineering (EEE)
-- Mechanical Engineering
-- Civil Engineering
-- MBA & MCA programs
-
-Key Information:
-- Admissions: Through TS EAMCET / ECET / ICET / Management quota
-- Academic Year: June to May
-- Placements: 90%+ placement record with top recruiters like TCS, Infosys, Wipro, Amazon, Microsoft
-- Facilities: Library, hostels, sports complex, labs, Wi-Fi campus, cafeteria
-- Contact: +91-40-24193276, info@iare.ac.in
-- Website: www.iare.ac.in
-
 Guidelines:
 - Be polite, accurate, and helpful
 - Answer ONLY IARE-related queries
 - For non-IARE questions, politely redirect to IARE topics
-- If unsure, suggest contacting the college directly
+- Base institutional facts (departments, fees, contacts, placements) on the campus knowledge provided with each question, and cite its [source] identifiers
+- If the campus knowledge does not cover a question, or you are unsure, suggest contacting the college directly
 - Keep responses concise and student-friendly
 
 Remember: You represent IARE, maintain professionalism and helpfulness.`;
 
+const QUOTA_MESSAGES: Record<QuotaLimit, string> = {
+  requests_per_minute: 'You are sending messages too quickly.',
+  messages_per_day: 'You have reached your daily message limit.',
+  tokens_per_day: 'You have reached your daily usage limit.',
+};
+
 /**
- * Call Grok (xAI) API
- * Returns { ok, response?, status?, errorDetails? }
+ * Relay provider deltas to the client as Server-Sent Events.
+ * Emits `{ delta }` frames, then a final `{ done, response, provider, ... }` frame
+ * extended with whatever `onComplete` returns for the full text,
+ * or an `{ error }` frame (after `onError`) if the provider fails mid-stream.
+ * A failing `onComplete` still ends with the `done` frame, without its extras.
+ * The provider is drained and `onComplete` runs even after the client has gone,
+ * so a closed tab or dropped connection does not lose the turn.
  */
-async function callGrok(messages: Array<{ role: string; content: string }>, apiKey: string) {
-  console.log('Attempting Grok API with model grok-2-latest...');
-  const response = await fetch('https://api.x.ai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
+function streamToClient(
+  firstDelta: string,
+  deltas: AsyncGenerator<string>,
+  provider: string,
+  onComplete: (response: string) => Promise<Record<string, unknown>>,
+  onError: () => Promise<void>
+) {
+  const encoder = new TextEncoder();
+  let clientGone = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (payload: Record<string, unknown>) => {
+        if (clientGone) return;
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+        } catch {
+          clientGone = true;
+        }
+      };
+
+      let fullResponse = firstDelta;
+      send({ delta: firstDelta });
+
+      try {
+        try {
+          for await (const delta of deltas) {
+            fullResponse += delta;
+            send({ delta });
+          }
+        } catch (error) {
+          // Only a failing provider gives the quota back; the answer was not delivered
+          console.error(`Stream from ${provider} interrupted:`, error);
+          await onError();
+          send({ error: 'The AI response was interrupted. Please try again.' });
+          return;
+        }
+
+        console.log(`Response streamed successfully via ${provider}${clientGone ? ' (client disconnected)' : ''}`);
+        try {
+          send({ done: true, response: fullResponse, provider, ...(await onComplete(fullResponse)) });
+        } catch (error) {
+          console.error('Failed to finish streamed response:', error);
+          send({ done: true, response: fullResponse, provider });
+        }
+      } finally {
+        if (!clientGone) controller.close();
+      }
+    },
+    cancel() {
+      clientGone = true;
     },
-    body: JSON.stringify({
-      model: 'grok-2-latest',
-      messages,
-      max_tokens: 1024,
-      temperature: 0.7,
-    }),
   });
 
-  const text = await response.text();
-  console.log('Grok API response status:', response.status);
-
-  if (!response.ok) {
-    console.error('Grok API error:', response.status, text);
-    return { ok: false, status: response.status, errorDetails: text };
-  }
-
-  const data = JSON.parse(text);
-  return { ok: true, response: data.choices?.[0]?.message?.content };
-}
-
-/**
- * Call Campus Assistant AI Gateway (Gemini fallback)
- * Returns { ok, response?, errorDetails? }
- */
-async function callCampusAssistantAI(messages: Array<{ role: string; content: string }>, apiKey: string) {
-  console.log('Falling back to Campus Assistant AI (Gemini)...');
-  const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-    method: 'POST',
+  return new Response(body, {
     headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
     },
-    body: JSON.stringify({
-      model: 'google/gemini-3-flash-preview',
-      messages,
-    }),
   });
+}
 
-  const text = await response.text();
-  console.log('Campus Assistant AI response status:', response.status);
-
-  if (!response.ok) {
-    console.error('Campus Assistant AI error:', response.status, text);
-    return { ok: false, status: response.status, errorDetails: text };
-  }
-
-  const data = JSON.parse(text);
-  return { ok: true, response: data.choices?.[0]?.message?.content };
+/**
+ * Empty delta source for replies that are sent whole, e.g. cached answers.
+ */
+async function* noMoreDeltas(): AsyncGenerator<string> {
+  yield* [];
 }
 
 serve(async (req) => {
@@ -112,11 +114,10 @@ serve(async (req) => {
   }
 
   try {
-    const GROK_API_KEY = Deno.env.get('GROK_API_KEY');
-    const CAMPUS_ASSISTANT_API_KEY = Deno.env.get('CAMPUS_ASSISTANT_API_KEY');
+    const providers = await loadProviders();
 
-    if (!GROK_API_KEY && !CAMPUS_ASSISTANT_API_KEY) {
-      console.error('No AI provider keys configured');
+    if (providers.length === 0) {
+      console.error('No AI providers configured');
       return new Response(
         JSON.stringify({ error: 'AI service not configured. Please contact administrator.' }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -148,84 +149,188 @@ serve(async (req) => {
       );
     }
 
-    const { message, conversationHistory = [] } = await req.json();
+    const userId = claimsData.claims.sub;
+    const body = await req.json().catch(() => null);
+    const parsed = parseChatRequest(body);
 
-    if (!message || typeof message !== 'string') {
+    if (!parsed.ok) {
       return new Response(
-        JSON.stringify({ error: 'Message is required' }),
+        JSON.stringify({ error: parsed.error }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Build messages array with conversation history
-    const messages = [
+    const { message, conversationHistory, conversationId, stream, inputType, mode, language } = parsed.request;
+
+    if (conversationId !== null && !(await ownsConversation(userId, conversationId))) {
+      return new Response(
+        JSON.stringify({ error: 'Conversation not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Enforce per-user rate limits before spending anything on providers
+    const quota = await consumeQuota(userId);
+    if (quota && !quota.allowed) {
+      return new Response(
+        JSON.stringify({
+          error: `${QUOTA_MESSAGES[quota.limit]} Please try again later.`,
+          code: 'rate_limited',
+          limit: quota.limit,
+          limitValue: quota.limitValue,
+          retryAfter: quota.retryAfter,
+        }),
+        {
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(quota.retryAfter) },
+        }
+      );
+    }
+    const usageId = quota?.allowed ? quota.usageId : null;
+
+    // Only context-free first questions may be answered from the cache;
+    // follow-ups depend on earlier turns and always go to a provider
+    const cacheable = conversationHistory.length === 0 && isCacheEnabled();
+    const cached = cacheable ? await getCachedAnswer(message, language) : null;
+
+    if (cached) {
+      console.log(`Answer cache hit for "${cached.questionKey}"`);
+      const saveCachedTurn = () => saveChatTurn({
+        userId,
+        conversationId,
+        userQuery: message,
+        aiResponse: cached.response,
+        provider: cached.provider,
+        inputType,
+        mode,
+        cached: true,
+      });
+
+      if (stream) {
+        return streamToClient(cached.response, noMoreDeltas(), cached.provider, async () => ({
+          sources: cached.sources,
+          cached: true,
+          ...(await saveCachedTurn()),
+        }), async () => {
+          if (usageId) await releaseQuota(usageId);
+        });
+      }
+
+      return new Response(
+        JSON.stringify({
+          ...(await saveCachedTurn()),
+          response: cached.response,
+          provider: cached.provider,
+          sources: cached.sources,
+          cached: true,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Retrieve campus knowledge relevant to this question
+    const knowledge = await retrieveKnowledge(supabase, message);
+    const sources = knowledge.map(sourceId);
+
+    // Build messages array with knowledge context and conversation history
+    const messages: ChatMessage[] = [
       { role: 'system', content: IARE_SYSTEM_PROMPT },
-      ...conversationHistory.map((msg: { role: string; content: string }) => ({
-        role: msg.role,
-        content: msg.content,
-      })),
+      { role: 'system', content: formatKnowledgeContext(knowledge) },
+      { role: 'system', content: languageInstruction(language) },
+      ...conversationHistory,
       { role: 'user', content: message },
     ];
 
     let aiResponse: string | undefined;
+    let aiStream: { firstDelta: string; deltas: AsyncGenerator<string> } | undefined;
     let usedProvider = 'none';
+    let lastFailure: { status?: number; errorDetails?: string } | undefined;
 
-    // --- Try Grok first (if key exists) ---
-    if (GROK_API_KEY) {
-      const grokResult = await callGrok(messages, GROK_API_KEY);
-
-      if (grokResult.ok && grokResult.response) {
-        aiResponse = grokResult.response;
-        usedProvider = 'grok';
-      } else {
-        // Fallback conditions: 403 (no credits), 429 (rate limit), or other transient errors
-        const shouldFallback = [403, 429, 500, 502, 503].includes(grokResult.status ?? 0);
-        console.log(`Grok failed with status ${grokResult.status}, fallback=${shouldFallback}`);
-
-        if (!shouldFallback) {
-          // Hard failure (e.g., 401 invalid key) – don't fallback, surface error
-          return new Response(
-            JSON.stringify({
-              error: 'AI provider error. Please check your Grok API key.',
-              details: grokResult.errorDetails,
-              status: grokResult.status,
-            }),
-            { status: grokResult.status ?? 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        }
+    // --- Try providers in priority order, falling back on retryable failures ---
+    for (const [index, provider] of providers.entries()) {
+      const result = await callProvider(provider, messages, stream);
+
+      if (result.ok && 'deltas' in result) {
+        aiStream = result;
+        usedProvider = provider.name;
+        break;
       }
-    }
+      if (result.ok && result.response) {
+        aiResponse = result.response;
+        usedProvider = provider.name;
+        break;
+      }
+      if (result.ok) continue;
 
-    // --- Fallback to Campus Assistant AI if Grok didn't succeed ---
-    if (!aiResponse && CAMPUS_ASSISTANT_API_KEY) {
-      const campusAssistantResult = await callCampusAssistantAI(messages, CAMPUS_ASSISTANT_API_KEY);
-
-      if (campusAssistantResult.ok && campusAssistantResult.response) {
-        aiResponse = campusAssistantResult.response;
-        usedProvider = 'campus-assistant-ai';
-      } else {
-        // Handle Campus Assistant AI rate limits gracefully
-        if (campusAssistantResult.status === 429) {
-          return new Response(
-            JSON.stringify({ error: 'Rate limit exceeded. Please try again in a moment.' }),
-            { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        }
-        if (campusAssistantResult.status === 402) {
-          return new Response(
-            JSON.stringify({ error: 'AI credits exhausted. Please add credits to your workspace.' }),
-            { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        }
+      lastFailure = result;
+      const isLast = index === providers.length - 1;
+      const shouldFallback = provider.retryableStatuses.includes(result.status ?? 0);
+      console.log(`${provider.name} failed with status ${result.status}, fallback=${shouldFallback && !isLast}`);
+
+      if (!shouldFallback && !isLast) {
+        // Hard failure (e.g., 401 invalid key) – don't fallback, surface error
+        if (usageId) await releaseQuota(usageId);
         return new Response(
           JSON.stringify({
-            error: 'AI service error. Please try again.',
-            details: campusAssistantResult.errorDetails,
-            status: campusAssistantResult.status,
+            error: `AI provider error. Please check your ${provider.name} API key.`,
+            details: result.errorDetails,
+            status: result.status,
           }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          { status: result.status ?? 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    if (!aiResponse && !aiStream && usageId) {
+      await releaseQuota(usageId);
+    }
+
+    // --- Report the last provider's failure if none succeeded ---
+    if (!aiResponse && !aiStream && lastFailure) {
+      if (lastFailure.status === 429) {
+        return new Response(
+          JSON.stringify({ error: 'Rate limit exceeded. Please try again in a moment.' }),
+          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (lastFailure.status === 402) {
+        return new Response(
+          JSON.stringify({ error: 'AI credits exhausted. Please add credits to your workspace.' }),
+          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
+      return new Response(
+        JSON.stringify({
+          error: 'AI service error. Please try again.',
+          details: lastFailure.errorDetails,
+          status: lastFailure.status,
+        }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (aiStream) {
+      console.log(`Streaming response via ${usedProvider}`);
+      return streamToClient(aiStream.firstDelta, aiStream.deltas, usedProvider, async (response) => {
+        if (usageId) await recordTokens(usageId, estimateTokens(...messages.map((m) => m.content), response));
+        if (cacheable) await cacheAnswer(message, language, { response, provider: usedProvider, sources });
+        return {
+          sources,
+          cached: false,
+          ...(await saveChatTurn({
+            userId,
+            conversationId,
+            userQuery: message,
+            aiResponse: response,
+            provider: usedProvider,
+            inputType,
+            mode,
+            cached: false,
+          })),
+        };
+      }, async () => {
+        if (usageId) await releaseQuota(usageId);
+      });
     }
 
     if (!aiResponse) {
@@ -237,8 +342,22 @@ serve(async (req) => {
 
     console.log(`Response generated successfully via ${usedProvider}`);
 
+    if (usageId) await recordTokens(usageId, estimateTokens(...messages.map((m) => m.content), aiResponse));
+    if (cacheable) await cacheAnswer(message, language, { response: aiResponse, provider: usedProvider, sources });
+
+    const turn = await saveChatTurn({
+      userId,
+      conversationId,
+      userQuery: message,
+      aiResponse,
+      provider: usedProvider,
+      inputType,
+      mode,
+      cached: false,
+    });
+
     return new Response(
-      JSON.stringify({ response: aiResponse, provider: usedProvider }),
+      JSON.stringify({ ...turn, response: aiResponse, provider: usedProvider, sources, cached: false }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
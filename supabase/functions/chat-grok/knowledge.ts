@@ -0,0 +1,55 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface KnowledgeChunk {
+  id: string;
+  source: string;
+  title: string;
+  chunk_index: number;
+  heading: string | null;
+  content: string;
+  rank: number;
+}
+
+const MAX_CONTEXT_CHUNKS = 5;
+
+/**
+ * Retrieve the campus knowledge chunks most relevant to a question.
+ * Retrieval failures are logged and treated as "no context" so chat keeps working.
+ */
+export async function retrieveKnowledge(supabase: SupabaseClient, query: string): Promise<KnowledgeChunk[]> {
+  const { data, error } = await supabase.rpc('match_knowledge_chunks', {
+    query_text: query,
+    match_count: MAX_CONTEXT_CHUNKS,
+  });
+
+  if (error) {
+    console.error('Knowledge retrieval failed:', error.message);
+    return [];
+  }
+
+  console.log(`Retrieved ${data?.length ?? 0} knowledge chunks`);
+  return (data ?? []) as KnowledgeChunk[];
+}
+
+/**
+ * Source identifier used in the prompt and returned to the client, e.g. `iare-overview#2`.
+ */
+export function sourceId(chunk: KnowledgeChunk) {
+  return `${chunk.source}#${chunk.chunk_index}`;
+}
+
+/**
+ * Format retrieved chunks as a system message the model can cite from.
+ */
+export function formatKnowledgeContext(chunks: KnowledgeChunk[]) {
+  if (chunks.length === 0) {
+    return 'No campus knowledge matched this question. If you cannot answer from general IARE context, suggest contacting the college directly.';
+  }
+
+  const passages = chunks.map((chunk) => {
+    const heading = chunk.heading ? ` – ${chunk.heading}` : '';
+    return `[${sourceId(chunk)}] ${chunk.title}${heading}\n${chunk.content}`;
+  });
+
+  return `Campus knowledge (cite the [source] identifiers you rely on):\n\n${passages.join('\n\n')}`;
+}
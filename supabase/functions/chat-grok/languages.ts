@@ -0,0 +1,28 @@
+/**
+ * Languages the assistant can answer in, by preference code.
+ * Keep in sync with src/lib/languages.ts.
+ */
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  hi: 'Hindi',
+  te: 'Telugu',
+  ta: 'Tamil',
+  kn: 'Kannada',
+  ml: 'Malayalam',
+  mr: 'Marathi',
+  bn: 'Bengali',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+};
+
+export const DEFAULT_LANGUAGE = 'en';
+
+/**
+ * System instruction pinning the reply language.
+ * Campus names, codes and [source] identifiers stay as written.
+ */
+export function languageInstruction(language: string) {
+  const name = LANGUAGE_NAMES[language] ?? LANGUAGE_NAMES[DEFAULT_LANGUAGE];
+  return `Reply in ${name}, whatever language the question or campus knowledge is written in. Keep proper nouns, course codes, amounts and [source] identifiers unchanged.`;
+}
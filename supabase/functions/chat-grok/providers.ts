@@ -0,0 +1,243 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type ChatMessage = { role: string; content: string };
+
+export interface ProviderConfig {
+  name: string;
+  baseUrl: string;
+  model: string;
+  /** Env var holding the API key, sent as a Bearer token when set */
+  apiKeyEnv: string | null;
+  /** Skip the provider when its key is missing; local servers usually need no key */
+  apiKeyRequired: boolean;
+  /** Upstream statuses that move on to the next provider instead of failing the request */
+  retryableStatuses: number[];
+  /** Lower runs first */
+  priority: number;
+  enabled: boolean;
+  /** Extra request body fields, e.g. max_tokens or temperature */
+  extraBody: Record<string, unknown>;
+}
+
+export type ProviderResult =
+  | { ok: true; response: string }
+  | { ok: true; deltas: AsyncGenerator<string>; firstDelta: string }
+  | { ok: false; status?: number; errorDetails?: string };
+
+const DEFAULT_RETRYABLE_STATUSES = [403, 429, 500, 502, 503];
+
+/**
+ * Built-in providers. The local OpenAI-compatible endpoint (llama.cpp, Ollama, vLLM...)
+ * is only enabled when LOCAL_LLM_BASE_URL is set.
+ */
+const BUILT_IN_PROVIDERS: ProviderConfig[] = [
+  {
+    name: 'grok',
+    baseUrl: 'https://api.x.ai/v1',
+    model: 'grok-2-latest',
+    apiKeyEnv: 'GROK_API_KEY',
+    apiKeyRequired: true,
+    retryableStatuses: DEFAULT_RETRYABLE_STATUSES,
+    priority: 10,
+    enabled: true,
+    extraBody: { max_tokens: 1024, temperature: 0.7 },
+  },
+  {
+    name: 'campus-assistant-ai',
+    baseUrl: 'https://ai.gateway.lovable.dev/v1',
+    model: 'google/gemini-3-flash-preview',
+    apiKeyEnv: 'CAMPUS_ASSISTANT_API_KEY',
+    apiKeyRequired: true,
+    retryableStatuses: DEFAULT_RETRYABLE_STATUSES,
+    priority: 20,
+    enabled: true,
+    extraBody: {},
+  },
+  {
+    name: 'local',
+    baseUrl: Deno.env.get('LOCAL_LLM_BASE_URL') ?? 'http://localhost:8080/v1',
+    model: Deno.env.get('LOCAL_LLM_MODEL') ?? 'llama3',
+    apiKeyEnv: 'LOCAL_LLM_API_KEY',
+    apiKeyRequired: false,
+    retryableStatuses: DEFAULT_RETRYABLE_STATUSES,
+    priority: 30,
+    enabled: !!Deno.env.get('LOCAL_LLM_BASE_URL'),
+    extraBody: {},
+  },
+];
+
+interface ProviderRow {
+  name: string;
+  base_url: string;
+  model: string;
+  api_key_env: string | null;
+  api_key_required: boolean;
+  retryable_statuses: number[] | null;
+  priority: number;
+  enabled: boolean;
+  extra_body: Record<string, unknown> | null;
+}
+
+/**
+ * Read provider overrides from the ai_providers table.
+ * Rows replace built-ins with the same name or add new providers.
+ */
+async function loadProviderRows(): Promise<ProviderConfig[]> {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!serviceRoleKey) return [];
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+  const { data, error } = await admin.from('ai_providers').select('*');
+
+  if (error) {
+    console.error('Failed to load ai_providers, using built-in providers:', error.message);
+    return [];
+  }
+
+  return ((data ?? []) as ProviderRow[]).map((row) => ({
+    name: row.name,
+    baseUrl: row.base_url,
+    model: row.model,
+    apiKeyEnv: row.api_key_env,
+    apiKeyRequired: row.api_key_required,
+    retryableStatuses: row.retryable_statuses ?? DEFAULT_RETRYABLE_STATUSES,
+    priority: row.priority,
+    enabled: row.enabled,
+    extraBody: row.extra_body ?? {},
+  }));
+}
+
+const parseList = (value: string | undefined) =>
+  (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+
+/**
+ * Resolve the ordered list of usable providers.
+ * Precedence: built-ins < ai_providers rows < AI_PROVIDER_ORDER / AI_PROVIDERS_DISABLED env vars.
+ * Providers that require an API key are skipped when its env var is unset.
+ */
+export async function loadProviders(): Promise<ProviderConfig[]> {
+  const byName = new Map(BUILT_IN_PROVIDERS.map((provider) => [provider.name, provider]));
+  for (const row of await loadProviderRows()) {
+    byName.set(row.name, row);
+  }
+
+  const order = parseList(Deno.env.get('AI_PROVIDER_ORDER'));
+  const disabled = new Set(parseList(Deno.env.get('AI_PROVIDERS_DISABLED')));
+
+  return [...byName.values()]
+    .map((provider) => {
+      const orderIndex = order.indexOf(provider.name);
+      return orderIndex === -1 ? provider : { ...provider, priority: orderIndex - order.length };
+    })
+    .filter((provider) => provider.enabled && !disabled.has(provider.name))
+    .filter((provider) => !provider.apiKeyRequired || (!!provider.apiKeyEnv && !!Deno.env.get(provider.apiKeyEnv)))
+    .sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * Parse an OpenAI-compatible SSE body into content deltas.
+ * Yields each non-empty `choices[0].delta.content` until `[DONE]`.
+ */
+async function* parseProviderStream(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') return;
+
+        try {
+          const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        } catch {
+          // Ignore keep-alive comments and partial frames
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Read the provider response either as a full completion or as a token stream.
+ * In streaming mode the first delta is awaited here, so a provider that fails
+ * before emitting any tokens is reported as a 502 and can still be fallen back from.
+ */
+async function readProviderResponse(response: Response, label: string, stream: boolean): Promise<ProviderResult> {
+  console.log(`${label} response status:`, response.status);
+
+  if (!response.ok) {
+    const text = await response.text();
+    console.error(`${label} error:`, response.status, text);
+    return { ok: false, status: response.status, errorDetails: text };
+  }
+
+  if (!stream) {
+    const data = JSON.parse(await response.text());
+    return { ok: true, response: data.choices?.[0]?.message?.content };
+  }
+
+  if (!response.body) {
+    return { ok: false, status: 502, errorDetails: `${label} returned an empty stream` };
+  }
+
+  const deltas = parseProviderStream(response.body);
+  try {
+    const first = await deltas.next();
+    if (first.done) {
+      return { ok: false, status: 502, errorDetails: `${label} stream ended before any tokens` };
+    }
+    return { ok: true, deltas, firstDelta: first.value };
+  } catch (error) {
+    console.error(`${label} stream error:`, error);
+    return { ok: false, status: 502, errorDetails: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Call an OpenAI-compatible chat completions endpoint.
+ * Network failures (e.g. a local server that is not running) are reported as 503.
+ * Returns { ok, response? | deltas?, status?, errorDetails? }
+ */
+export async function callProvider(provider: ProviderConfig, messages: ChatMessage[], stream = false): Promise<ProviderResult> {
+  console.log(`Attempting ${provider.name} with model ${provider.model}...`);
+
+  const apiKey = provider.apiKeyEnv ? Deno.env.get(provider.apiKeyEnv) : undefined;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${provider.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        ...provider.extraBody,
+        model: provider.model,
+        messages,
+        stream,
+      }),
+    });
+  } catch (error) {
+    console.error(`${provider.name} request failed:`, error);
+    return { ok: false, status: 503, errorDetails: error instanceof Error ? error.message : String(error) };
+  }
+
+  return readProviderResponse(response, provider.name, stream);
+}
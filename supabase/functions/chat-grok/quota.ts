@@ -0,0 +1,85 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type QuotaLimit = 'requests_per_minute' | 'messages_per_day' | 'tokens_per_day';
+
+export type QuotaResult =
+  | { allowed: true; usageId: string }
+  | { allowed: false; limit: QuotaLimit; limitValue: number; retryAfter: number };
+
+const serviceClient = () => createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+/**
+ * Rough token count (~4 characters per token). Streaming providers do not
+ * report usage, so the same estimate is used for every provider.
+ */
+export function estimateTokens(...texts: string[]) {
+  return texts.reduce((total, text) => total + Math.ceil(text.length / 4), 0);
+}
+
+/**
+ * Check the user's per-role limits and reserve one request if allowed.
+ * Limits live in chat_rate_limits, keyed by profiles.role.
+ * If the quota check itself fails the request is let through rather than
+ * locking every user out of the chat.
+ */
+export async function consumeQuota(userId: string): Promise<QuotaResult | null> {
+  const { data, error } = await serviceClient()
+    .rpc('consume_chat_quota', { _user_id: userId })
+    .single();
+
+  if (error || !data) {
+    console.error('Failed to check chat quota:', error?.message);
+    return null;
+  }
+
+  const row = data as {
+    allowed: boolean;
+    usage_id: string | null;
+    exceeded_limit: QuotaLimit | null;
+    limit_value: number | null;
+    retry_after_seconds: number | null;
+  };
+
+  if (row.allowed) {
+    return { allowed: true, usageId: row.usage_id! };
+  }
+
+  return {
+    allowed: false,
+    limit: row.exceeded_limit!,
+    limitValue: row.limit_value ?? 0,
+    retryAfter: row.retry_after_seconds ?? 60,
+  };
+}
+
+/**
+ * Record the tokens spent by a completed request against the daily token quota.
+ */
+export async function recordTokens(usageId: string, tokens: number) {
+  const { error } = await serviceClient()
+    .from('chat_usage')
+    .update({ tokens })
+    .eq('id', usageId);
+
+  if (error) {
+    console.error('Failed to record token usage:', error.message);
+  }
+}
+
+/**
+ * Give back a reserved request when no provider produced a reply,
+ * so provider outages do not eat into the user's daily quota.
+ */
+export async function releaseQuota(usageId: string) {
+  const { error } = await serviceClient()
+    .from('chat_usage')
+    .delete()
+    .eq('id', usageId);
+
+  if (error) {
+    console.error('Failed to release chat quota:', error.message);
+  }
+}
@@ -0,0 +1,128 @@
+import type { ChatMessage } from "./providers.ts";
+import type { ConversationMode, InputType } from "./history.ts";
+import { DEFAULT_LANGUAGE, LANGUAGE_NAMES } from "./languages.ts";
+
+/** Mirrors the client-side cap in useChatSession send */
+export const MAX_MESSAGE_LENGTH = 1000;
+/** Clients send the last 10 messages; leave headroom without allowing unbounded history */
+export const MAX_HISTORY_TURNS = 20;
+export const MAX_HISTORY_TURN_LENGTH = 8000;
+export const MAX_HISTORY_TOTAL_LENGTH = 40000;
+
+const HISTORY_ROLES = ['user', 'assistant'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface ChatRequest {
+  message: string;
+  conversationHistory: ChatMessage[];
+  conversationId: string | null;
+  stream: boolean;
+  inputType: InputType;
+  /** Mode of a new conversation; defaults to inputType */
+  mode: ConversationMode;
+  /** Reply language code, see languages.ts */
+  language: string;
+}
+
+export type ParseResult =
+  | { ok: true; request: ChatRequest }
+  | { ok: false; error: string };
+
+const fail = (error: string): ParseResult => ({ ok: false, error });
+
+/**
+ * Validate the chat-grok request body.
+ * History may only contain user/assistant turns with string content, so clients
+ * cannot inject system messages that override the system prompt.
+ * The message itself is truncated rather than rejected, matching the client.
+ */
+export function parseChatRequest(body: unknown): ParseResult {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return fail('Request body must be a JSON object');
+  }
+
+  const {
+    message,
+    conversationHistory = [],
+    conversationId = null,
+    stream = false,
+    inputType = 'text',
+    mode = inputType,
+    language = DEFAULT_LANGUAGE,
+  } = body as Record<string, unknown>;
+
+  if (typeof message !== 'string' || !message.trim()) {
+    return fail('Message is required');
+  }
+
+  if (inputType !== 'text' && inputType !== 'voice') {
+    return fail("inputType must be 'text' or 'voice'");
+  }
+
+  if (mode !== 'text' && mode !== 'voice' && mode !== 'mixed') {
+    return fail("mode must be 'text', 'voice' or 'mixed'");
+  }
+
+  if (typeof language !== 'string' || !Object.hasOwn(LANGUAGE_NAMES, language)) {
+    return fail(`language must be one of: ${Object.keys(LANGUAGE_NAMES).join(', ')}`);
+  }
+
+  if (typeof stream !== 'boolean') {
+    return fail('stream must be a boolean');
+  }
+
+  if (conversationId !== null && (typeof conversationId !== 'string' || !UUID_PATTERN.test(conversationId))) {
+    return fail('conversationId must be a conversation UUID or null');
+  }
+
+  if (!Array.isArray(conversationHistory)) {
+    return fail('conversationHistory must be an array');
+  }
+
+  if (conversationHistory.length > MAX_HISTORY_TURNS) {
+    return fail(`conversationHistory may contain at most ${MAX_HISTORY_TURNS} messages`);
+  }
+
+  const history: ChatMessage[] = [];
+  let totalLength = 0;
+
+  for (const [index, turn] of conversationHistory.entries()) {
+    if (!turn || typeof turn !== 'object') {
+      return fail(`conversationHistory[${index}] must be an object with role and content`);
+    }
+
+    const { role, content } = turn as Record<string, unknown>;
+
+    if (typeof role !== 'string' || !HISTORY_ROLES.includes(role)) {
+      return fail(`conversationHistory[${index}].role must be 'user' or 'assistant'`);
+    }
+
+    if (typeof content !== 'string') {
+      return fail(`conversationHistory[${index}].content must be a string`);
+    }
+
+    if (content.length > MAX_HISTORY_TURN_LENGTH) {
+      return fail(`conversationHistory[${index}].content exceeds ${MAX_HISTORY_TURN_LENGTH} characters`);
+    }
+
+    totalLength += content.length;
+    history.push({ role, content });
+  }
+
+  if (totalLength > MAX_HISTORY_TOTAL_LENGTH) {
+    return fail(`conversationHistory exceeds ${MAX_HISTORY_TOTAL_LENGTH} characters in total`);
+  }
+
+  return {
+    ok: true,
+    request: {
+      message: message.trim().slice(0, MAX_MESSAGE_LENGTH),
+      conversationHistory: history,
+      conversationId,
+      stream,
+      inputType,
+      mode,
+      language,
+    },
+  };
+}
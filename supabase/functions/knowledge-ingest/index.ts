@@ -0,0 +1,192 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+
+type ContentType = 'markdown' | 'text' | 'pdf';
+
+interface Chunk {
+  heading: string | null;
+  content: string;
+}
+
+const MAX_CHUNK_CHARS = 1200;
+const CONTENT_TYPES: ContentType[] = ['markdown', 'text', 'pdf'];
+
+/**
+ * Normalize raw document text before chunking.
+ * PDF-extracted text gets hyphenated line breaks re-joined and bare page numbers removed.
+ */
+function normalizeText(content: string, contentType: ContentType) {
+  let text = content.replace(/\r\n?/g, '\n');
+
+  if (contentType === 'pdf') {
+    text = text
+      .replace(/(\w)-\n(\w)/g, '$1$2')
+      .replace(/^\s*(page\s+)?\d+(\s+of\s+\d+)?\s*$/gim, '')
+      .replace(/([^\n])\n(?!\n)/g, '$1 ');
+  }
+
+  return text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Split a document into heading-scoped chunks of at most MAX_CHUNK_CHARS.
+ * Markdown headings start a new section; paragraphs are packed greedily.
+ */
+function chunkDocument(text: string, contentType: ContentType): Chunk[] {
+  const chunks: Chunk[] = [];
+  let heading: string | null = null;
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) {
+      chunks.push({ heading, content: current.trim() });
+    }
+    current = '';
+  };
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const headingMatch = contentType === 'markdown' ? paragraph.match(/^#{1,6}\s+(.+?)(\n|$)/) : null;
+    let body = paragraph;
+
+    if (headingMatch) {
+      flush();
+      heading = headingMatch[1].trim();
+      body = paragraph.slice(headingMatch[0].length);
+    }
+
+    for (let start = 0; start < body.length; start += MAX_CHUNK_CHARS) {
+      const piece = body.slice(start, start + MAX_CHUNK_CHARS).trim();
+      if (!piece) continue;
+
+      if (current.length + piece.length + 2 > MAX_CHUNK_CHARS) {
+        flush();
+      }
+      current += (current ? '\n\n' : '') + piece;
+    }
+  }
+
+  flush();
+  return chunks;
+}
+
+/**
+ * KNOWLEDGE INGEST FUNCTION
+ * =========================
+ * Accepts { source, title, contentType, content } from an admin, chunks the text
+ * and replaces any existing document with the same source identifier.
+ */
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token);
+
+    if (claimsError || !claimsData?.claims) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const userId = claimsData.claims.sub;
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('user_id', userId)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return new Response(
+        JSON.stringify({ error: 'Only administrators can manage campus knowledge.' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { source, title, contentType = 'markdown', content } = await req.json();
+
+    if (!source || typeof source !== 'string' || !title || typeof title !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'Source and title are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!CONTENT_TYPES.includes(contentType)) {
+      return new Response(
+        JSON.stringify({ error: `contentType must be one of: ${CONTENT_TYPES.join(', ')}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!content || typeof content !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'Content is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const chunks = chunkDocument(normalizeText(content, contentType), contentType);
+
+    if (chunks.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'Content has no indexable text' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Knowledge tables are read-only for clients, so writes use the service role
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const { data: document, error: documentError } = await admin
+      .from('knowledge_documents')
+      .upsert({ source, title, content_type: contentType, created_by: userId }, { onConflict: 'source' })
+      .select('id')
+      .single();
+
+    if (documentError) throw documentError;
+
+    // Old chunks are only removed if the new ones are stored (one transaction)
+    const { error: replaceError } = await admin.rpc('replace_knowledge_chunks', {
+      _document_id: document.id,
+      _chunks: chunks,
+    });
+
+    if (replaceError) throw replaceError;
+
+    console.log(`Ingested ${chunks.length} chunks for ${source}`);
+
+    return new Response(
+      JSON.stringify({ documentId: document.id, source, chunks: chunks.length }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in knowledge-ingest function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'An error occurred' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
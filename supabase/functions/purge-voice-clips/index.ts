@@ -0,0 +1,72 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+
+/** Storage removes at most 1000 objects per call */
+const BATCH_SIZE = 1000;
+const VOICE_CLIP_BUCKET = 'voice-clips';
+
+/**
+ * PURGE VOICE CLIPS FUNCTION
+ * ==========================
+ * Enforces each user's "Delete Recordings After" setting, whether or not
+ * they come back: removes expired recordings from the voice-clips bucket
+ * and their voice_clips rows, in batches until none are left.
+ *
+ * Run hourly by pg_cron with the service role key; any other caller is
+ * refused. Returns { deleted }.
+ */
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const admin = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+    let deleted = 0;
+    for (;;) {
+      const { data: clips, error } = await admin.rpc('expired_voice_clips', { _limit: BATCH_SIZE });
+      if (error) throw error;
+      if (!clips?.length) break;
+
+      // Files first: a row without a file is harmless, a file without a row is never found again
+      const { error: removeError } = await admin.storage
+        .from(VOICE_CLIP_BUCKET)
+        .remove(clips.map((clip: { path: string }) => clip.path));
+      if (removeError) throw removeError;
+
+      const { error: deleteError } = await admin
+        .from('voice_clips')
+        .delete()
+        .in('id', clips.map((clip: { id: string }) => clip.id));
+      if (deleteError) throw deleteError;
+
+      deleted += clips.length;
+      if (clips.length < BATCH_SIZE) break;
+    }
+
+    if (deleted > 0) console.log(`Purged ${deleted} expired voice clips`);
+
+    return new Response(
+      JSON.stringify({ deleted }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in purge-voice-clips function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'An error occurred' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
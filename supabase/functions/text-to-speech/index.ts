@@ -0,0 +1,120 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { consumeSpeechQuota, releaseSpeechQuota, speechQuotaExceeded } from "../_shared/speechQuota.ts";
+
+/** OpenAI's /audio/speech accepts at most 4096 characters */
+const MAX_TEXT_LENGTH = 4000;
+
+/**
+ * TEXT-TO-SPEECH FUNCTION
+ * =======================
+ * Synthesizes { text } into MP3 audio with an OpenAI-compatible /audio/speech
+ * endpoint, so the client can play replies through an <audio> element routed
+ * to the user's chosen speaker.
+ *
+ * Characters synthesized count against the caller's tts_characters_per_day
+ * (chat_rate_limits); over the limit it answers the same structured 429 as
+ * chat-grok.
+ *
+ * Configured with TTS_API_KEY (required), TTS_BASE_URL, TTS_MODEL and TTS_VOICE.
+ * Without a key it answers 501 { code: 'tts_unavailable' } and clients fall
+ * back to the browser's built-in speech synthesis.
+ */
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const apiKey = Deno.env.get('TTS_API_KEY');
+    if (!apiKey) {
+      return new Response(
+        JSON.stringify({ error: 'Text-to-speech is not configured.', code: 'tts_unavailable' }),
+        { status: 501, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token);
+
+    if (claimsError || !claimsData?.claims) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body = await req.json().catch(() => null);
+    const text = typeof body?.text === 'string' ? body.text.trim().slice(0, MAX_TEXT_LENGTH) : '';
+
+    if (!text) {
+      return new Response(
+        JSON.stringify({ error: 'Text is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Enforce the daily limit before spending anything on the provider
+    const quota = await consumeSpeechQuota(claimsData.claims.sub, 'tts', text.length);
+    if (quota && !quota.allowed) {
+      return speechQuotaExceeded(quota);
+    }
+    const usageId = quota?.allowed ? quota.usageId : null;
+
+    const baseUrl = Deno.env.get('TTS_BASE_URL') ?? 'https://api.openai.com/v1';
+    const response = await fetch(`${baseUrl}/audio/speech`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: Deno.env.get('TTS_MODEL') ?? 'tts-1',
+        voice: Deno.env.get('TTS_VOICE') ?? 'alloy',
+        input: text,
+        response_format: 'mp3',
+      }),
+    }).catch((error) => {
+      console.error('TTS provider unreachable:', error);
+      return null;
+    });
+
+    // Unreachable or failing, the provider spent nothing; give the characters back
+    if (!response?.ok) {
+      if (response) console.error('TTS provider error:', response.status, await response.text());
+      if (usageId) await releaseSpeechQuota(usageId);
+      return new Response(
+        JSON.stringify({ error: 'Speech synthesis failed. Please try again.' }),
+        { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // supabase-js hands octet-stream bodies to the caller as a Blob
+    return new Response(response.body, {
+      headers: { ...corsHeaders, 'Content-Type': 'application/octet-stream' },
+    });
+  } catch (error) {
+    console.error('Error in text-to-speech function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'An error occurred' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
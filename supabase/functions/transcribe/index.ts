@@ -0,0 +1,139 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { consumeSpeechQuota, releaseSpeechQuota, speechQuotaExceeded } from "../_shared/speechQuota.ts";
+
+/** About ten minutes of Opus audio; the OpenAI API itself stops at 25 MB */
+const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+const LANGUAGE_PATTERN = /^[a-z]{2}$/;
+
+/**
+ * TRANSCRIBE FUNCTION
+ * ===================
+ * Speech-to-text for recorded utterances, used by voice chat when the browser
+ * has no Web Speech recognizer or the user prefers server transcription.
+ *
+ * Accepts multipart form data with an `audio` file and an optional
+ * `language` code, forwards it to a Whisper-compatible
+ * /audio/transcriptions endpoint and returns { text }.
+ *
+ * STT_BASE_URL (default OpenAI) can point at a local whisper.cpp server;
+ * STT_API_KEY is then optional. STT_MODEL defaults to whisper-1.
+ * With neither set it answers 501 { code: 'stt_unavailable' }.
+ *
+ * Each recording counts against the caller's transcriptions_per_day and
+ * requests_per_minute (chat_rate_limits); over a limit it answers the same
+ * structured 429 as chat-grok.
+ */
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const apiKey = Deno.env.get('STT_API_KEY');
+    const customBaseUrl = Deno.env.get('STT_BASE_URL');
+
+    if (!apiKey && !customBaseUrl) {
+      return new Response(
+        JSON.stringify({ error: 'Server transcription is not configured.', code: 'stt_unavailable' }),
+        { status: 501, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: claimsError } = await supabase.auth.getClaims(token);
+
+    if (claimsError || !claimsData?.claims) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const form = await req.formData().catch(() => null);
+    const audio = form?.get('audio');
+    const language = form?.get('language');
+
+    if (!(audio instanceof File) || audio.size === 0) {
+      return new Response(
+        JSON.stringify({ error: 'An audio file is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (audio.size > MAX_AUDIO_BYTES) {
+      return new Response(
+        JSON.stringify({ error: 'Recording is too long. Please keep questions under a few minutes.' }),
+        { status: 413, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (language !== null && language !== undefined && (typeof language !== 'string' || !LANGUAGE_PATTERN.test(language))) {
+      return new Response(
+        JSON.stringify({ error: 'language must be a two-letter language code' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const quota = await consumeSpeechQuota(claimsData.claims.sub, 'transcription', 1);
+    if (quota && !quota.allowed) {
+      return speechQuotaExceeded(quota);
+    }
+
+    const upstream = new FormData();
+    upstream.append('file', audio, audio.name || 'utterance.webm');
+    upstream.append('model', Deno.env.get('STT_MODEL') ?? 'whisper-1');
+    upstream.append('response_format', 'json');
+    if (language) upstream.append('language', language);
+
+    const baseUrl = customBaseUrl ?? 'https://api.openai.com/v1';
+    const response = await fetch(`${baseUrl}/audio/transcriptions`, {
+      method: 'POST',
+      headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+      body: upstream,
+    }).catch((error) => {
+      console.error('Transcription provider unreachable:', error);
+      return null;
+    });
+
+    // Unreachable or failing, the provider spent nothing; give the transcription back
+    if (!response?.ok) {
+      if (response) console.error('Transcription provider error:', response.status, await response.text());
+      if (quota?.allowed) await releaseSpeechQuota(quota.usageId);
+      return new Response(
+        JSON.stringify({ error: 'Transcription failed. Please try again.' }),
+        { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { text } = await response.json();
+
+    return new Response(
+      JSON.stringify({ text: typeof text === 'string' ? text.trim() : '' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in transcribe function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'An error occurred' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,107 @@
+-- Create knowledge_documents table for campus knowledge sources
+CREATE TABLE public.knowledge_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source TEXT NOT NULL UNIQUE,
+  title TEXT NOT NULL,
+  content_type TEXT NOT NULL DEFAULT 'markdown' CHECK (content_type IN ('markdown', 'text', 'pdf')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create knowledge_chunks table holding retrievable passages
+CREATE TABLE public.knowledge_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID REFERENCES public.knowledge_documents(id) ON DELETE CASCADE NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  heading TEXT,
+  content TEXT NOT NULL,
+  search_vector TSVECTOR GENERATED ALWAYS AS (
+    to_tsvector('english', COALESCE(heading, '') || ' ' || content)
+  ) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, chunk_index)
+);
+
+CREATE INDEX knowledge_chunks_search_idx ON public.knowledge_chunks USING GIN (search_vector);
+
+-- Enable RLS on knowledge tables
+ALTER TABLE public.knowledge_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.knowledge_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Knowledge is readable by signed-in users; writes go through the knowledge-ingest function
+CREATE POLICY "Authenticated users can view knowledge documents"
+ON public.knowledge_documents FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can view knowledge chunks"
+ON public.knowledge_chunks FOR SELECT
+TO authenticated
+USING (true);
+
+-- Keep updated_at current on documents
+CREATE OR REPLACE FUNCTION public.update_knowledge_documents_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_knowledge_documents_updated_at
+BEFORE UPDATE ON public.knowledge_documents
+FOR EACH ROW
+EXECUTE FUNCTION public.update_knowledge_documents_updated_at();
+
+-- Full-text retrieval of the most relevant chunks for a question.
+-- Terms are OR-ed so natural-language questions still match partially.
+CREATE OR REPLACE FUNCTION public.match_knowledge_chunks(query_text TEXT, match_count INTEGER DEFAULT 5)
+RETURNS TABLE (
+  id UUID,
+  source TEXT,
+  title TEXT,
+  chunk_index INTEGER,
+  heading TEXT,
+  content TEXT,
+  rank REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT NULLIF(replace(plainto_tsquery('english', query_text)::text, '&', '|'), '')::tsquery AS q
+  )
+  SELECT
+    c.id,
+    d.source,
+    d.title,
+    c.chunk_index,
+    c.heading,
+    c.content,
+    ts_rank_cd(c.search_vector, query.q) AS rank
+  FROM public.knowledge_chunks c
+  JOIN public.knowledge_documents d ON d.id = c.document_id
+  CROSS JOIN query
+  WHERE query.q IS NOT NULL AND c.search_vector @@ query.q
+  ORDER BY rank DESC
+  LIMIT LEAST(GREATEST(match_count, 1), 20);
+$$;
+
+-- Seed with the facts previously hardcoded in the chat-grok system prompt
+WITH doc AS (
+  INSERT INTO public.knowledge_documents (source, title, content_type)
+  VALUES ('iare-overview', 'IARE Overview', 'markdown')
+  RETURNING id
+)
+INSERT INTO public.knowledge_chunks (document_id, chunk_index, heading, content)
+SELECT doc.id, chunk.chunk_index, chunk.heading, chunk.content
+FROM doc, (VALUES
+  (0, 'About IARE', 'Full Name: Institute of Aeronautical Engineering (IARE). Location: Dundigal, Hyderabad, Telangana, India. Established: 2000. Affiliation: Jawaharlal Nehru Technological University Hyderabad (JNTUH). Accreditation: NAAC ''A++'' Grade, NBA Accredited programs. Campus: 32 acres with modern infrastructure.'),
+  (1, 'Departments & Courses', 'Departments and courses: Aeronautical Engineering; Computer Science & Engineering (CSE); Information Technology (IT); Electronics & Communication Engineering (ECE); Electrical & Electronics Engineering (EEE); Mechanical Engineering; Civil Engineering; MBA & MCA programs.'),
+  (2, 'Admissions', 'Admissions are through TS EAMCET / ECET / ICET / Management quota. Academic Year: June to May.'),
+  (3, 'Placements', 'Placements: 90%+ placement record with top recruiters like TCS, Infosys, Wipro, Amazon, Microsoft.'),
+  (4, 'Facilities', 'Facilities: Library, hostels, sports complex, labs, Wi-Fi campus, cafeteria.'),
+  (5, 'Contact', 'Contact: +91-40-24193276, info@iare.ac.in. Website: www.iare.ac.in.')
+) AS chunk(chunk_index, heading, content);
@@ -0,0 +1,33 @@
+-- Create ai_providers table to configure chat-grok providers without redeploying.
+-- Rows override the built-in providers with the same name or register new
+-- OpenAI-compatible endpoints (e.g. a local llama.cpp / Ollama server).
+CREATE TABLE public.ai_providers (
+  name TEXT PRIMARY KEY,
+  base_url TEXT NOT NULL,
+  model TEXT NOT NULL,
+  api_key_env TEXT,
+  api_key_required BOOLEAN NOT NULL DEFAULT true,
+  retryable_statuses INTEGER[] NOT NULL DEFAULT ARRAY[403, 429, 500, 502, 503],
+  priority INTEGER NOT NULL DEFAULT 100,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  extra_body JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS; only the service role (used by chat-grok) reads provider config
+ALTER TABLE public.ai_providers ENABLE ROW LEVEL SECURITY;
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION public.update_ai_providers_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_ai_providers_updated_at
+BEFORE UPDATE ON public.ai_providers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_ai_providers_updated_at();
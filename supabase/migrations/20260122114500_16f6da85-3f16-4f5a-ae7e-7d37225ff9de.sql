@@ -0,0 +1,7 @@
+-- Record which AI provider generated each chat turn
+ALTER TABLE public.chat_history
+ADD COLUMN IF NOT EXISTS provider TEXT;
+
+-- Chat turns are now written by the chat-grok edge function (service role)
+-- so clients can no longer store responses that were never generated
+DROP POLICY IF EXISTS "Users can insert their own chat messages" ON public.chat_history;
@@ -0,0 +1,84 @@
+-- Create conversations table so chats are grouped into threads
+CREATE TABLE public.conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT,
+  mode TEXT NOT NULL DEFAULT 'text' CHECK (mode IN ('text', 'voice')),
+  archived BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX conversations_user_mode_idx ON public.conversations (user_id, mode, updated_at DESC);
+
+-- Enable RLS on conversations
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+
+-- Policies for conversations
+CREATE POLICY "Users can view their own conversations"
+ON public.conversations FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own conversations"
+ON public.conversations FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own conversations"
+ON public.conversations FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own conversations"
+ON public.conversations FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Link chat turns to their conversation
+ALTER TABLE public.chat_history
+ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE;
+
+CREATE INDEX chat_history_conversation_idx ON public.chat_history (conversation_id, created_at);
+
+-- Keep updated_at current on conversations
+CREATE OR REPLACE FUNCTION public.update_conversations_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_conversations_updated_at
+BEFORE UPDATE ON public.conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_conversations_updated_at();
+
+-- Bump a conversation whenever a new turn is added to it
+CREATE OR REPLACE FUNCTION public.touch_conversation_on_chat()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.conversation_id IS NOT NULL THEN
+    UPDATE public.conversations SET updated_at = now() WHERE id = NEW.conversation_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER touch_conversation_on_chat
+AFTER INSERT ON public.chat_history
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_conversation_on_chat();
+
+-- Move existing history into one "Earlier chats" thread per user and mode
+WITH legacy AS (
+  INSERT INTO public.conversations (user_id, title, mode, created_at)
+  SELECT user_id, 'Earlier chats', COALESCE(input_type, 'text'), MIN(created_at)
+  FROM public.chat_history
+  WHERE conversation_id IS NULL
+  GROUP BY user_id, COALESCE(input_type, 'text')
+  RETURNING id, user_id, mode
+)
+UPDATE public.chat_history h
+SET conversation_id = legacy.id
+FROM legacy
+WHERE h.conversation_id IS NULL
+  AND h.user_id = legacy.user_id
+  AND COALESCE(h.input_type, 'text') = legacy.mode;
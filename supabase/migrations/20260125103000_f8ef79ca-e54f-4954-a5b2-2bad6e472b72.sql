@@ -0,0 +1,105 @@
+-- Per-role chat limits enforced by the chat-grok edge function.
+-- A NULL limit means unlimited.
+CREATE TABLE public.chat_rate_limits (
+  role TEXT PRIMARY KEY CHECK (role IN ('student', 'admin')),
+  requests_per_minute INTEGER,
+  messages_per_day INTEGER,
+  tokens_per_day INTEGER,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.chat_rate_limits (role, requests_per_minute, messages_per_day, tokens_per_day)
+VALUES
+  ('student', 10, 200, 100000),
+  ('admin', 60, NULL, NULL);
+
+-- One row per accepted chat request; tokens are filled in once the reply completes
+CREATE TABLE public.chat_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  tokens INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX chat_usage_user_created_idx ON public.chat_usage (user_id, created_at DESC);
+
+-- Enable RLS; only the service role (used by chat-grok) reads limits and usage
+ALTER TABLE public.chat_rate_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_usage ENABLE ROW LEVEL SECURITY;
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION public.update_chat_rate_limits_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_chat_rate_limits_updated_at
+BEFORE UPDATE ON public.chat_rate_limits
+FOR EACH ROW
+EXECUTE FUNCTION public.update_chat_rate_limits_updated_at();
+
+-- Check the caller's limits and, if allowed, record the request.
+-- Runs under a per-user advisory lock so concurrent requests cannot both take the last slot.
+-- Daily limits reset at midnight UTC. Users without a profile get the student limits.
+CREATE OR REPLACE FUNCTION public.consume_chat_quota(_user_id UUID)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  usage_id UUID,
+  exceeded_limit TEXT,
+  limit_value INTEGER,
+  retry_after_seconds INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _limits public.chat_rate_limits%ROWTYPE;
+  _day_start TIMESTAMP WITH TIME ZONE := date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  _until_tomorrow INTEGER := CEIL(EXTRACT(EPOCH FROM (_day_start + INTERVAL '1 day' - now())))::INTEGER;
+  _minute_count INTEGER;
+  _oldest_in_minute TIMESTAMP WITH TIME ZONE;
+  _day_count INTEGER;
+  _day_tokens INTEGER;
+  _usage_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(_user_id::TEXT));
+
+  SELECT l.* INTO _limits
+  FROM public.chat_rate_limits l
+  WHERE l.role = COALESCE((SELECT p.role FROM public.profiles p WHERE p.user_id = _user_id), 'student');
+
+  SELECT COUNT(*), MIN(created_at) INTO _minute_count, _oldest_in_minute
+  FROM public.chat_usage
+  WHERE user_id = _user_id AND created_at > now() - INTERVAL '1 minute';
+
+  IF _limits.requests_per_minute IS NOT NULL AND _minute_count >= _limits.requests_per_minute THEN
+    RETURN QUERY SELECT false, NULL::UUID, 'requests_per_minute', _limits.requests_per_minute,
+      GREATEST(1, CEIL(EXTRACT(EPOCH FROM (_oldest_in_minute + INTERVAL '1 minute' - now())))::INTEGER);
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(tokens), 0) INTO _day_count, _day_tokens
+  FROM public.chat_usage
+  WHERE user_id = _user_id AND created_at >= _day_start;
+
+  IF _limits.messages_per_day IS NOT NULL AND _day_count >= _limits.messages_per_day THEN
+    RETURN QUERY SELECT false, NULL::UUID, 'messages_per_day', _limits.messages_per_day, _until_tomorrow;
+    RETURN;
+  END IF;
+
+  IF _limits.tokens_per_day IS NOT NULL AND _day_tokens >= _limits.tokens_per_day THEN
+    RETURN QUERY SELECT false, NULL::UUID, 'tokens_per_day', _limits.tokens_per_day, _until_tomorrow;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.chat_usage (user_id) VALUES (_user_id) RETURNING id INTO _usage_id;
+  RETURN QUERY SELECT true, _usage_id, NULL::TEXT, NULL::INTEGER, NULL::INTEGER;
+END;
+$$;
+
+-- Only the edge function may consume quota on a user's behalf
+REVOKE EXECUTE ON FUNCTION public.consume_chat_quota(UUID) FROM PUBLIC, anon, authenticated;
+
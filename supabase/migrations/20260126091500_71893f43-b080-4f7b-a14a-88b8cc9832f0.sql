@@ -0,0 +1,74 @@
+-- Cache of answers to context-free campus questions, keyed by the normalized question.
+-- Written and read only by the chat-grok edge function (service role).
+CREATE TABLE public.answer_cache (
+  question_key TEXT PRIMARY KEY,
+  question TEXT NOT NULL,
+  response TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  sources TEXT[] NOT NULL DEFAULT '{}',
+  hits INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_hit_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX answer_cache_expires_idx ON public.answer_cache (expires_at);
+
+-- Enable RLS; no client policies
+ALTER TABLE public.answer_cache ENABLE ROW LEVEL SECURITY;
+
+-- Flag turns that were answered from the cache (for hit-rate analytics)
+ALTER TABLE public.chat_history
+ADD COLUMN IF NOT EXISTS cached BOOLEAN NOT NULL DEFAULT false;
+
+-- Cached answers are stale as soon as the campus knowledge changes
+CREATE OR REPLACE FUNCTION public.invalidate_answer_cache_on_knowledge_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.answer_cache;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER invalidate_answer_cache_on_documents
+AFTER INSERT OR UPDATE OR DELETE ON public.knowledge_documents
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.invalidate_answer_cache_on_knowledge_change();
+
+CREATE TRIGGER invalidate_answer_cache_on_chunks
+AFTER INSERT OR UPDATE OR DELETE ON public.knowledge_chunks
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.invalidate_answer_cache_on_knowledge_change();
+
+-- Manual invalidation for administrators, e.g. after changing the system prompt.
+-- Returns the number of cached answers removed.
+CREATE OR REPLACE FUNCTION public.clear_answer_cache()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _removed INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only administrators can clear the answer cache';
+  END IF;
+
+  DELETE FROM public.answer_cache;
+  GET DIAGNOSTICS _removed = ROW_COUNT;
+  RETURN _removed;
+END;
+$$;
+
+-- Count a cache hit
+CREATE OR REPLACE FUNCTION public.record_answer_cache_hit(_question_key TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  UPDATE public.answer_cache
+  SET hits = hits + 1, last_hit_at = now()
+  WHERE question_key = _question_key;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_answer_cache_hit(TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,190 @@
+-- Admin role support: helper, cross-user read access, role management,
+-- aggregate reporting and FAQ suggestions managed from the /admin console.
+
+-- SECURITY DEFINER so policies can call it without recursing into profiles RLS
+CREATE OR REPLACE FUNCTION public.is_admin(_user_id UUID DEFAULT auth.uid())
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = _user_id AND role = 'admin');
+$$;
+
+-- Admins can read every profile and every chat turn
+CREATE POLICY "Admins can view all profiles"
+ON public.profiles FOR SELECT
+USING (public.is_admin());
+
+CREATE POLICY "Admins can view all chat history"
+ON public.chat_history FOR SELECT
+USING (public.is_admin());
+
+-- Users may update their own profile but not their role; roles change through set_user_role
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+    AND auth.role() <> 'service_role'
+    AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can change user roles';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_profile_role
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_role();
+
+-- Change a user's role. Admins cannot demote themselves, so there is always one left.
+CREATE OR REPLACE FUNCTION public.set_user_role(_user_id UUID, _role TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can change user roles';
+  END IF;
+
+  IF _role NOT IN ('student', 'admin') THEN
+    RAISE EXCEPTION 'Unknown role: %', _role;
+  END IF;
+
+  IF _user_id = auth.uid() AND _role <> 'admin' THEN
+    RAISE EXCEPTION 'You cannot remove your own admin role';
+  END IF;
+
+  UPDATE public.profiles SET role = _role WHERE user_id = _user_id;
+END;
+$$;
+
+-- Users with their chat activity, newest first
+CREATE OR REPLACE FUNCTION public.admin_list_users()
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  email TEXT,
+  role TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_login TIMESTAMP WITH TIME ZONE,
+  message_count BIGINT,
+  last_message_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can list users';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.user_id, p.name, p.email, p.role, p.created_at, p.last_login,
+    COUNT(h.id), MAX(h.created_at)
+  FROM public.profiles p
+  LEFT JOIN public.chat_history h ON h.user_id = p.user_id
+  GROUP BY p.id
+  ORDER BY p.created_at DESC;
+END;
+$$;
+
+-- Daily chat volume across all users for the last _days days (UTC)
+CREATE OR REPLACE FUNCTION public.admin_chat_volume(_days INTEGER DEFAULT 14)
+RETURNS TABLE (
+  day DATE,
+  text_count BIGINT,
+  voice_count BIGINT,
+  active_users BIGINT,
+  cached_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can view chat volume';
+  END IF;
+
+  RETURN QUERY
+  SELECT d::DATE,
+    COUNT(h.id) FILTER (WHERE COALESCE(h.input_type, 'text') = 'text'),
+    COUNT(h.id) FILTER (WHERE h.input_type = 'voice'),
+    COUNT(DISTINCT h.user_id),
+    COUNT(h.id) FILTER (WHERE h.cached)
+  FROM generate_series(
+    (now() AT TIME ZONE 'UTC')::DATE - (GREATEST(_days, 1) - 1),
+    (now() AT TIME ZONE 'UTC')::DATE,
+    INTERVAL '1 day'
+  ) AS d
+  LEFT JOIN public.chat_history h ON (h.created_at AT TIME ZONE 'UTC')::DATE = d::DATE
+  GROUP BY d
+  ORDER BY d;
+END;
+$$;
+
+-- Admins can remove knowledge documents (chunks cascade); writes go through knowledge-ingest
+CREATE POLICY "Admins can delete knowledge documents"
+ON public.knowledge_documents FOR DELETE
+USING (public.is_admin());
+
+-- FAQ suggestions shown in the command search, managed by admins
+CREATE TABLE public.faq_suggestions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  query TEXT NOT NULL,
+  category TEXT NOT NULL,
+  icon TEXT NOT NULL DEFAULT 'help-circle',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.faq_suggestions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view enabled FAQ suggestions"
+ON public.faq_suggestions FOR SELECT
+USING (enabled OR public.is_admin());
+
+CREATE POLICY "Admins can create FAQ suggestions"
+ON public.faq_suggestions FOR INSERT
+WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can update FAQ suggestions"
+ON public.faq_suggestions FOR UPDATE
+USING (public.is_admin());
+
+CREATE POLICY "Admins can delete FAQ suggestions"
+ON public.faq_suggestions FOR DELETE
+USING (public.is_admin());
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION public.update_faq_suggestions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_faq_suggestions_updated_at
+BEFORE UPDATE ON public.faq_suggestions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_faq_suggestions_updated_at();
+
+-- Seed with the suggestions previously hard-coded in CommandSearch
+INSERT INTO public.faq_suggestions (query, category, icon, sort_order) VALUES
+  ('Admission requirements', 'Admissions', 'graduation-cap', 10),
+  ('Fee structure', 'Admissions', 'dollar-sign', 20),
+  ('Available courses', 'Courses', 'book-open', 30),
+  ('B.Tech programs', 'Courses', 'book-open', 40),
+  ('Placement statistics', 'Placements', 'users', 50),
+  ('Top recruiters', 'Placements', 'building', 60),
+  ('Hostel facilities', 'Campus', 'building', 70),
+  ('Campus timings', 'Campus', 'clock', 80),
+  ('Contact information', 'Contact', 'mail', 90),
+  ('Application deadline', 'Admissions', 'clock', 100);
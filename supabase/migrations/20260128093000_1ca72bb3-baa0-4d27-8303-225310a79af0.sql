@@ -0,0 +1,55 @@
+-- Thumbs up/down feedback on assistant answers, one reaction per user and chat turn
+CREATE TABLE public.message_feedback (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chat_id UUID REFERENCES public.chat_history(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  reaction TEXT NOT NULL CHECK (reaction IN ('like', 'dislike')),
+  reason TEXT CHECK (char_length(reason) <= 500),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (chat_id, user_id)
+);
+
+CREATE INDEX message_feedback_reaction_idx ON public.message_feedback (reaction, created_at DESC);
+
+-- Enable RLS on message_feedback
+ALTER TABLE public.message_feedback ENABLE ROW LEVEL SECURITY;
+
+-- Users rate only their own chat turns
+CREATE POLICY "Users can view their own feedback"
+ON public.message_feedback FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can rate their own chats"
+ON public.message_feedback FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.chat_history h WHERE h.id = chat_id AND h.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own feedback"
+ON public.message_feedback FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own feedback"
+ON public.message_feedback FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Admins review feedback across all users
+CREATE POLICY "Admins can view all feedback"
+ON public.message_feedback FOR SELECT
+USING (public.is_admin());
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION public.update_message_feedback_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_message_feedback_updated_at
+BEFORE UPDATE ON public.message_feedback
+FOR EACH ROW
+EXECUTE FUNCTION public.update_message_feedback_updated_at();
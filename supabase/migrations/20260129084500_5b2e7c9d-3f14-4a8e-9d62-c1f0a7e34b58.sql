@@ -0,0 +1,4 @@
+-- Per-conversation reply language, overriding profiles.preferences.language.
+-- NULL follows the profile preference.
+ALTER TABLE public.conversations
+ADD COLUMN language TEXT CHECK (language IN ('en', 'hi', 'te', 'ta', 'kn', 'ml', 'mr', 'bn', 'es', 'fr', 'de'));
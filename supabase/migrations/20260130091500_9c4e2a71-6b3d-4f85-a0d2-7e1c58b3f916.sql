@@ -0,0 +1,56 @@
+-- Shared kiosk accounts for the campus booth (/kiosk).
+-- A kiosk account is an ordinary auth user whose role an admin sets to 'kiosk'.
+-- It gets its own chat limits and cannot read back what visitors asked.
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_role_check CHECK (role IN ('student', 'admin', 'kiosk'));
+
+ALTER TABLE public.chat_rate_limits DROP CONSTRAINT IF EXISTS chat_rate_limits_role_check;
+ALTER TABLE public.chat_rate_limits
+ADD CONSTRAINT chat_rate_limits_role_check CHECK (role IN ('student', 'admin', 'kiosk'));
+
+-- One account serves every visitor, so the per-minute and daily limits are higher than a student's
+INSERT INTO public.chat_rate_limits (role, requests_per_minute, messages_per_day, tokens_per_day)
+VALUES ('kiosk', 20, 2000, 1000000);
+
+CREATE OR REPLACE FUNCTION public.is_kiosk(_user_id UUID DEFAULT auth.uid())
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = _user_id AND role = 'kiosk');
+$$;
+
+-- Visitors share the kiosk session; none of them may browse earlier visitors' questions
+CREATE POLICY "Kiosk accounts cannot read chat history"
+ON public.chat_history AS RESTRICTIVE FOR SELECT
+USING (NOT public.is_kiosk());
+
+CREATE POLICY "Kiosk accounts cannot read conversations"
+ON public.conversations AS RESTRICTIVE FOR SELECT
+USING (NOT public.is_kiosk());
+
+-- set_user_role learns the new role
+CREATE OR REPLACE FUNCTION public.set_user_role(_user_id UUID, _role TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can change user roles';
+  END IF;
+
+  IF _role NOT IN ('student', 'admin', 'kiosk') THEN
+    RAISE EXCEPTION 'Unknown role: %', _role;
+  END IF;
+
+  IF _user_id = auth.uid() AND _role <> 'admin' THEN
+    RAISE EXCEPTION 'You cannot remove your own admin role';
+  END IF;
+
+  UPDATE public.profiles SET role = _role WHERE user_id = _user_id;
+END;
+$$;
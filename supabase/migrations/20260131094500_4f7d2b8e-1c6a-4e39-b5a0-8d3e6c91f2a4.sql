@@ -0,0 +1,67 @@
+-- Campus vocabulary the speech recognizer gets wrong, corrected in voice chat
+-- before questions are sent. Matching is fuzzy, so one entry per distinct
+-- mishearing is enough; the canonical term itself is matched too.
+CREATE TABLE public.speech_corrections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  heard TEXT NOT NULL,
+  canonical TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX speech_corrections_heard_idx ON public.speech_corrections (lower(heard));
+
+ALTER TABLE public.speech_corrections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view enabled speech corrections"
+ON public.speech_corrections FOR SELECT
+USING (enabled OR public.is_admin());
+
+CREATE POLICY "Admins can create speech corrections"
+ON public.speech_corrections FOR INSERT
+WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can update speech corrections"
+ON public.speech_corrections FOR UPDATE
+USING (public.is_admin());
+
+CREATE POLICY "Admins can delete speech corrections"
+ON public.speech_corrections FOR DELETE
+USING (public.is_admin());
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION public.update_speech_corrections_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_speech_corrections_updated_at
+BEFORE UPDATE ON public.speech_corrections
+FOR EACH ROW
+EXECUTE FUNCTION public.update_speech_corrections_updated_at();
+
+-- Mishearings seen in voice chat logs
+INSERT INTO public.speech_corrections (heard, canonical) VALUES
+  ('em set', 'EAMCET'),
+  ('aim set', 'EAMCET'),
+  ('eam set', 'EAMCET'),
+  ('e set', 'ECET'),
+  ('ee set', 'ECET'),
+  ('dandigal', 'Dundigal'),
+  ('dundee gal', 'Dundigal'),
+  ('jn tuh', 'JNTUH'),
+  ('j n t u h', 'JNTUH'),
+  ('jntu edge', 'JNTUH'),
+  ('knack', 'NAAC'),
+  ('n a a c', 'NAAC'),
+  ('i are e', 'IARE'),
+  ('eye are e', 'IARE'),
+  ('c s e', 'CSE'),
+  ('e c e', 'ECE'),
+  ('e e e', 'EEE'),
+  ('a i m l', 'AIML'),
+  ('i t department', 'IT department');
@@ -0,0 +1,56 @@
+-- Optional recordings of voice questions, so a wrong transcript can be checked
+-- against what was actually said. The audio lives in the private voice-clips
+-- bucket under <user id>/<conversation id>/; one row per recorded clip.
+CREATE TABLE public.voice_clips (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chat_id UUID REFERENCES public.chat_history(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  path TEXT NOT NULL UNIQUE,
+  -- Order of the clip within the question (speech added before sending)
+  position SMALLINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX voice_clips_chat_id_idx ON public.voice_clips (chat_id);
+CREATE INDEX voice_clips_user_created_idx ON public.voice_clips (user_id, created_at);
+
+ALTER TABLE public.voice_clips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own voice clips"
+ON public.voice_clips FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can attach voice clips to their own chats"
+ON public.voice_clips FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND path LIKE auth.uid()::text || '/%'
+  AND EXISTS (SELECT 1 FROM public.chat_history h WHERE h.id = chat_id AND h.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete their own voice clips"
+ON public.voice_clips FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Admins listen to clips when reviewing misrecognized questions
+CREATE POLICY "Admins can view all voice clips"
+ON public.voice_clips FOR SELECT
+USING (public.is_admin());
+
+-- Private bucket; clips are played through signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('voice-clips', 'voice-clips', false, 10485760, ARRAY['audio/webm', 'audio/ogg', 'audio/mp4'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Each user reads and writes only their own folder
+CREATE POLICY "Users can upload their own voice clips"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'voice-clips' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can view their own voice clips"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'voice-clips' AND ((storage.foldername(name))[1] = auth.uid()::text OR public.is_admin()));
+
+CREATE POLICY "Users can delete their own voice clips"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'voice-clips' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,5 @@
+-- Mixed chat threads, where questions are typed or spoken in the same thread.
+-- Each chat_history row keeps its own input_type.
+ALTER TABLE public.conversations DROP CONSTRAINT IF EXISTS conversations_mode_check;
+ALTER TABLE public.conversations
+ADD CONSTRAINT conversations_mode_check CHECK (mode IN ('text', 'voice', 'mixed'));
@@ -0,0 +1,73 @@
+-- Limits for the paid speech endpoints, enforced by their edge functions.
+-- Speech is counted apart from chat_usage so reading replies aloud does not
+-- use up chat messages. A NULL limit means unlimited.
+ALTER TABLE public.chat_rate_limits ADD COLUMN tts_characters_per_day INTEGER;
+
+UPDATE public.chat_rate_limits SET tts_characters_per_day = 200000 WHERE role = 'student';
+UPDATE public.chat_rate_limits SET tts_characters_per_day = 2000000 WHERE role = 'kiosk';
+
+-- One row per accepted speech request; amount is what the limit counts
+CREATE TABLE public.speech_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('tts')),
+  amount INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX speech_usage_user_kind_created_idx ON public.speech_usage (user_id, kind, created_at DESC);
+
+-- Only the service role (used by the edge functions) reads usage
+ALTER TABLE public.speech_usage ENABLE ROW LEVEL SECURITY;
+
+-- Check the caller's daily speech limit for _kind and, if _amount more fits, record it.
+-- Same locking, day boundary and role fallback as consume_chat_quota.
+CREATE OR REPLACE FUNCTION public.consume_speech_quota(_user_id UUID, _kind TEXT, _amount INTEGER)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  usage_id UUID,
+  exceeded_limit TEXT,
+  limit_value INTEGER,
+  retry_after_seconds INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _limits public.chat_rate_limits%ROWTYPE;
+  _day_start TIMESTAMP WITH TIME ZONE := date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  _until_tomorrow INTEGER := CEIL(EXTRACT(EPOCH FROM (_day_start + INTERVAL '1 day' - now())))::INTEGER;
+  _limit_name TEXT;
+  _limit INTEGER;
+  _day_used INTEGER;
+  _usage_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('speech:' || _user_id::TEXT));
+
+  SELECT l.* INTO _limits
+  FROM public.chat_rate_limits l
+  WHERE l.role = COALESCE((SELECT p.role FROM public.profiles p WHERE p.user_id = _user_id), 'student');
+
+  IF _kind = 'tts' THEN
+    _limit_name := 'tts_characters_per_day';
+    _limit := _limits.tts_characters_per_day;
+  ELSE
+    RAISE EXCEPTION 'Unknown speech usage kind: %', _kind;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO _day_used
+  FROM public.speech_usage
+  WHERE user_id = _user_id AND kind = _kind AND created_at >= _day_start;
+
+  IF _limit IS NOT NULL AND _day_used + _amount > _limit THEN
+    RETURN QUERY SELECT false, NULL::UUID, _limit_name, _limit, _until_tomorrow;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.speech_usage (user_id, kind, amount) VALUES (_user_id, _kind, _amount) RETURNING id INTO _usage_id;
+  RETURN QUERY SELECT true, _usage_id, NULL::TEXT, NULL::INTEGER, NULL::INTEGER;
+END;
+$$;
+
+-- Only the edge functions may consume quota on a user's behalf
+REVOKE EXECUTE ON FUNCTION public.consume_speech_quota(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,74 @@
+-- Per-user limit on server transcription, counted in speech_usage like
+-- text-to-speech. Each accepted recording is one transcription; bursts are
+-- also held to the role's requests_per_minute. A NULL limit means unlimited.
+ALTER TABLE public.chat_rate_limits ADD COLUMN transcriptions_per_day INTEGER;
+
+UPDATE public.chat_rate_limits SET transcriptions_per_day = 200 WHERE role = 'student';
+UPDATE public.chat_rate_limits SET transcriptions_per_day = 2000 WHERE role = 'kiosk';
+
+ALTER TABLE public.speech_usage DROP CONSTRAINT speech_usage_kind_check;
+ALTER TABLE public.speech_usage ADD CONSTRAINT speech_usage_kind_check CHECK (kind IN ('tts', 'transcription'));
+
+CREATE OR REPLACE FUNCTION public.consume_speech_quota(_user_id UUID, _kind TEXT, _amount INTEGER)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  usage_id UUID,
+  exceeded_limit TEXT,
+  limit_value INTEGER,
+  retry_after_seconds INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _limits public.chat_rate_limits%ROWTYPE;
+  _day_start TIMESTAMP WITH TIME ZONE := date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  _until_tomorrow INTEGER := CEIL(EXTRACT(EPOCH FROM (_day_start + INTERVAL '1 day' - now())))::INTEGER;
+  _limit_name TEXT;
+  _limit INTEGER;
+  _day_used INTEGER;
+  _minute_count INTEGER;
+  _oldest_in_minute TIMESTAMP WITH TIME ZONE;
+  _usage_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('speech:' || _user_id::TEXT));
+
+  SELECT l.* INTO _limits
+  FROM public.chat_rate_limits l
+  WHERE l.role = COALESCE((SELECT p.role FROM public.profiles p WHERE p.user_id = _user_id), 'student');
+
+  IF _kind = 'tts' THEN
+    _limit_name := 'tts_characters_per_day';
+    _limit := _limits.tts_characters_per_day;
+  ELSIF _kind = 'transcription' THEN
+    _limit_name := 'transcriptions_per_day';
+    _limit := _limits.transcriptions_per_day;
+
+    IF _limits.requests_per_minute IS NOT NULL THEN
+      SELECT COUNT(*), MIN(created_at) INTO _minute_count, _oldest_in_minute
+      FROM public.speech_usage
+      WHERE user_id = _user_id AND kind = _kind AND created_at > now() - INTERVAL '1 minute';
+
+      IF _minute_count >= _limits.requests_per_minute THEN
+        RETURN QUERY SELECT false, NULL::UUID, 'requests_per_minute'::TEXT, _limits.requests_per_minute,
+          GREATEST(1, CEIL(EXTRACT(EPOCH FROM (_oldest_in_minute + INTERVAL '1 minute' - now())))::INTEGER);
+        RETURN;
+      END IF;
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown speech usage kind: %', _kind;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO _day_used
+  FROM public.speech_usage
+  WHERE user_id = _user_id AND kind = _kind AND created_at >= _day_start;
+
+  IF _limit IS NOT NULL AND _day_used + _amount > _limit THEN
+    RETURN QUERY SELECT false, NULL::UUID, _limit_name, _limit, _until_tomorrow;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.speech_usage (user_id, kind, amount) VALUES (_user_id, _kind, _amount) RETURNING id INTO _usage_id;
+  RETURN QUERY SELECT true, _usage_id, NULL::TEXT, NULL::INTEGER, NULL::INTEGER;
+END;
+$$;
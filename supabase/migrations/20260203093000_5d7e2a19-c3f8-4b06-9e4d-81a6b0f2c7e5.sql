@@ -0,0 +1,44 @@
+-- Recordings past each owner's "Delete Recordings After" setting
+-- (profiles.preferences.voice_clips.retention_days), oldest first. A missing
+-- setting means the 30-day default; an explicit null keeps them. Read by the
+-- purge-voice-clips function, which also removes the Storage objects.
+CREATE OR REPLACE FUNCTION public.expired_voice_clips(_limit INTEGER)
+RETURNS TABLE (id UUID, path TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT c.id, c.path
+  FROM public.voice_clips c
+  LEFT JOIN public.profiles p ON p.user_id = c.user_id
+  WHERE c.created_at < now() - make_interval(days => CASE
+    WHEN COALESCE(p.preferences->'voice_clips' ? 'retention_days', false)
+      THEN (p.preferences->'voice_clips'->>'retention_days')::INTEGER
+    ELSE 30
+  END)
+  ORDER BY c.created_at
+  LIMIT _limit;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expired_voice_clips(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Run the purge hourly. Needs the project URL and service role key in Vault:
+--   select vault.create_secret('https://<project>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'purge-voice-clips',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-voice-clips',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,24 @@
+-- Replace a document's chunks in one transaction, so a failed insert leaves
+-- the previous chunks in place instead of a document retrieval cannot find.
+-- _chunks is a JSON array of { heading, content } in chunk order.
+CREATE OR REPLACE FUNCTION public.replace_knowledge_chunks(_document_id UUID, _chunks JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  _inserted INTEGER;
+BEGIN
+  DELETE FROM public.knowledge_chunks WHERE document_id = _document_id;
+
+  INSERT INTO public.knowledge_chunks (document_id, chunk_index, heading, content)
+  SELECT _document_id, (c.ordinality - 1)::INTEGER, c.value->>'heading', c.value->>'content'
+  FROM jsonb_array_elements(_chunks) WITH ORDINALITY AS c(value, ordinality);
+
+  GET DIAGNOSTICS _inserted = ROW_COUNT;
+  RETURN _inserted;
+END;
+$$;
+
+-- Only the knowledge-ingest function writes knowledge
+REVOKE EXECUTE ON FUNCTION public.replace_knowledge_chunks(UUID, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,44 @@
+-- Store a chat turn in one transaction: start or title its conversation and
+-- insert the chat_history row (whose trigger bumps the conversation), so a
+-- failure part-way leaves neither an empty thread nor an orphaned turn.
+-- Called by chat-grok with the user id from the verified JWT.
+CREATE OR REPLACE FUNCTION public.save_chat_turn(
+  _user_id UUID,
+  _conversation_id UUID,
+  _mode TEXT,
+  _title TEXT,
+  _user_query TEXT,
+  _ai_response TEXT,
+  _provider TEXT,
+  _input_type TEXT,
+  _cached BOOLEAN
+)
+RETURNS TABLE (chat_id UUID, conversation_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _thread_id UUID := _conversation_id;
+  _chat_id UUID;
+BEGIN
+  IF _thread_id IS NULL THEN
+    INSERT INTO public.conversations (user_id, mode, title)
+    VALUES (_user_id, _mode, _title)
+    RETURNING id INTO _thread_id;
+  ELSE
+    UPDATE public.conversations
+    SET title = _title
+    WHERE id = _thread_id AND user_id = _user_id AND title IS NULL;
+  END IF;
+
+  INSERT INTO public.chat_history (user_id, conversation_id, user_query, ai_response, provider, input_type, cached)
+  VALUES (_user_id, _thread_id, _user_query, _ai_response, _provider, _input_type, _cached)
+  RETURNING id INTO _chat_id;
+
+  RETURN QUERY SELECT _chat_id, _thread_id;
+END;
+$$;
+
+-- Only the chat-grok function stores turns
+REVOKE EXECUTE ON FUNCTION public.save_chat_turn(UUID, UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;